@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MessageSquare, MoreHorizontal, Pencil, Pin, PinOff, Plus, Trash2 } from "lucide-react";
+import type { ChatThread } from "@/lib/chat-threads";
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  // null while a new chat has not been sent yet
+  activeThreadId: string | null;
+  // Switching is blocked while an answer is streaming into the open thread
+  disabled?: boolean;
+  onSelect: (thread: ChatThread) => void;
+  onNew: () => void;
+  onRename: (thread: ChatThread, title: string) => void;
+  onTogglePin: (thread: ChatThread) => void;
+  onDelete: (thread: ChatThread) => void;
+}
+
+export default function ChatThreadList({
+  threads,
+  activeThreadId,
+  disabled = false,
+  onSelect,
+  onNew,
+  onRename,
+  onTogglePin,
+  onDelete,
+}: ChatThreadListProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ChatThread | null>(null);
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setDraftTitle(thread.title);
+  };
+
+  const finishRename = (thread: ChatThread) => {
+    const title = draftTitle.trim();
+    setRenamingId(null);
+    if (title && title !== thread.title) onRename(thread, title);
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3">
+        <Button variant="outline" className="w-full justify-start" onClick={onNew} disabled={disabled}>
+          <Plus className="w-4 h-4 mr-2" />
+          New chat
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 px-3 pb-3">
+        {threads.length === 0 ? (
+          <p className="text-sm text-muted-foreground px-2 py-4">
+            Your chats about this note will appear here.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {threads.map((thread) => (
+              <div
+                key={thread.id}
+                className={`group flex items-center gap-1 rounded-lg pr-1 ${
+                  thread.id === activeThreadId ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                }`}
+              >
+                {renamingId === thread.id ? (
+                  <Input
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={() => finishRename(thread)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") finishRename(thread);
+                      if (e.key === "Escape") setRenamingId(null);
+                    }}
+                    maxLength={100}
+                    autoFocus
+                    className="h-8 m-1 text-sm"
+                  />
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => onSelect(thread)}
+                      disabled={disabled}
+                      className="flex-1 min-w-0 flex items-center gap-2 px-2 py-2 text-left text-sm disabled:cursor-not-allowed"
+                      title={thread.title}
+                    >
+                      {thread.pinned ? (
+                        <Pin className="w-3.5 h-3.5 flex-shrink-0 text-primary" />
+                      ) : (
+                        <MessageSquare className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="truncate">{thread.title}</span>
+                    </button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 flex-shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100 data-[state=open]:opacity-100"
+                          title="Thread options"
+                        >
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => startRename(thread)}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => onTogglePin(thread)}>
+                          {thread.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                          {thread.pinned ? "Unpin" : "Pin"}
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => setPendingDelete(thread)}
+                          disabled={disabled && thread.id === activeThreadId}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(isOpen) => !isOpen && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{pendingDelete?.title}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The messages and photos in this chat will be permanently deleted. Your notes are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && onDelete(pendingDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,10 +1,22 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, FileText, X, Loader2, CheckCircle } from "lucide-react";
+import { Upload, FileText, FolderOpen, X, Loader2, CheckCircle, AlertCircle, RefreshCw, Pause, Play, Copy } from "lucide-react";
+import { describeProcessing, type ProcessingProgress } from "@/lib/processing";
+import {
+  forgetUpload,
+  listUnfinishedUploads,
+  resumableUpload,
+  uploadFingerprint,
+  UploadPausedError,
+} from "@/lib/storage-upload";
+import { filesFromDrop } from "@/lib/dropped-files";
+import { findDuplicateNote, hashFile, linkDuplicateNote, type DuplicateNote } from "@/lib/duplicates";
 
 interface FileUploadProps {
   onUploadComplete: () => void;
@@ -17,25 +29,81 @@ const ACCEPTED_TYPES = [
   "application/vnd.ms-powerpoint",
   "application/vnd.openxmlformats-officedocument.presentationml.presentation",
   "text/plain",
+  "text/markdown",
+  "text/x-markdown",
+  "text/x-tex",
+  "application/x-tex",
+  "application/zip",
+  "application/x-zip-compressed",
+  "image/png",
+  "image/jpeg",
+  "image/heic",
+  "image/heif",
+];
+
+// Browsers report an empty or generic MIME type for .tex, .md and .heic
+// files, so the extension is checked as well.
+const ACCEPTED_EXTENSIONS = [
+  "pdf", "doc", "docx", "ppt", "pptx", "txt", "md", "markdown", "tex", "zip", "png", "jpg", "jpeg", "heic", "heif",
 ];
 
 const MAX_SIZE = 50 * 1024 * 1024; // 50MB
 
-type UploadStatus = "idle" | "uploading" | "processing" | "success" | "error";
+// Files uploaded at the same time; processing runs on the server and does
+// not hold a slot.
+const UPLOAD_CONCURRENCY = 3;
+
+// "duplicate": the user already has a note for this file and picks what
+// to do with it
+type ItemStatus = "pending" | "uploading" | "paused" | "duplicate" | "processing" | "success" | "error";
+
+interface UploadItem {
+  id: string;
+  name: string;
+  size: number;
+  // null for uploads interrupted by a reload until the user picks the file
+  // again
+  file: File | null;
+  // Key of the resumable upload (see storage-upload)
+  fingerprint: string | null;
+  // SHA-256 of the file once computed, and the note it duplicates
+  hash: string | null;
+  duplicateOf: DuplicateNote | null;
+  status: ItemStatus;
+  progress: number;
+  message: string;
+  // Set once the note exists; failures after that are retried from the
+  // note card, not by uploading again
+  noteId: string | null;
+}
+
+// A paused upload without its file waits for the user, not for the batch;
+// a duplicate holds the batch until the user decides
+const isActive = (item: UploadItem) =>
+  item.status === "pending" || item.status === "uploading" || item.status === "processing" ||
+  item.status === "duplicate" || (item.status === "paused" && item.file !== null);
+
+const canRetry = (item: UploadItem) => item.status === "error" && item.file !== null && item.noteId === null;
+
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
 
 export default function FileUpload({ onUploadComplete }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadStatus, setUploadStatus] = useState<UploadStatus>("idle");
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [statusMessage, setStatusMessage] = useState("");
-  
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const itemsRef = useRef<UploadItem[]>([]);
+  itemsRef.current = items;
+  const closeTimer = useRef<ReturnType<typeof setTimeout>>();
+  // Aborting an upload's controller pauses it
+  const uploadControllers = useRef(new Map<string, AbortController>());
+
   const { user } = useAuth();
   const { toast } = useToast();
 
   const validateFile = (file: File): string | null => {
-    if (!ACCEPTED_TYPES.includes(file.type)) {
-      return "Invalid file type. Please upload PDF, DOC, DOCX, PPT, PPTX, or TXT files.";
+    const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+    if (!ACCEPTED_TYPES.includes(file.type) && !ACCEPTED_EXTENSIONS.includes(extension)) {
+      return "Invalid file type. Please upload PDF, DOC, DOCX, PPT, PPTX, TXT, Markdown, LaTeX, ZIP, or image (PNG, JPG, HEIC) files.";
     }
     if (file.size > MAX_SIZE) {
       return "File size exceeds 50MB limit.";
@@ -43,6 +111,77 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
     return null;
   };
 
+  const updateItem = useCallback((id: string, update: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...update } : item)));
+  }, []);
+
+  // Uploads a reload interrupted are listed until their file is picked
+  // again (browsers do not let a page reopen files by itself)
+  useEffect(() => {
+    if (!user) return;
+    const unfinished = listUnfinishedUploads(user.id);
+    if (unfinished.length === 0) return;
+    setItems(prev => [
+      ...unfinished
+        .filter(upload => !prev.some(item => item.fingerprint === upload.fingerprint))
+        .map((upload): UploadItem => ({
+          id: crypto.randomUUID(),
+          name: upload.fileName,
+          size: upload.size,
+          file: null,
+          fingerprint: upload.fingerprint,
+          hash: null,
+          duplicateOf: null,
+          status: "paused",
+          progress: 0,
+          message: "Interrupted. Select the file again to resume.",
+          noteId: null,
+        })),
+      ...prev,
+    ]);
+  }, [user]);
+
+  // Queues files, listing invalid ones as failed straight away. Hidden
+  // files from dropped folders (.DS_Store and the like) are left out. A
+  // file whose interrupted upload is listed is attached to it.
+  const addFiles = useCallback((files: File[]) => {
+    if (!user) return;
+    setItems(prev => {
+      let items = prev;
+      const known = new Set(prev.filter(item => item.file).map(item => item.fingerprint));
+      const added: UploadItem[] = [];
+      for (const file of files) {
+        if (file.name.startsWith(".")) continue;
+        const fingerprint = uploadFingerprint(user.id, file);
+        if (known.has(fingerprint)) continue;
+        known.add(fingerprint);
+
+        if (items.some(item => item.fingerprint === fingerprint && item.file === null)) {
+          items = items.map(item => (item.fingerprint === fingerprint && item.file === null
+            ? { ...item, file, status: "pending", message: "Resumes where it stopped" }
+            : item));
+          continue;
+        }
+
+        const error = validateFile(file);
+        added.push({
+          id: crypto.randomUUID(),
+          name: file.name,
+          size: file.size,
+          file,
+          fingerprint,
+          hash: null,
+          duplicateOf: null,
+          status: error ? "error" : "pending",
+          progress: 0,
+          message: error ?? "",
+          noteId: null,
+        });
+      }
+      return [...items, ...added];
+    });
+  }, [user]);
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -53,235 +192,483 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
     }
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      const error = validateFile(file);
-      if (error) {
-        toast({ variant: "destructive", title: "Invalid file", description: error });
-        return;
-      }
-      setSelectedFile(file);
-      setUploadStatus("idle");
+
+    try {
+      addFiles(await filesFromDrop(e.dataTransfer));
+    } catch (error) {
+      console.error("Error reading dropped files:", error);
+      toast({ variant: "destructive", title: "Could not read the dropped files", description: "Please try selecting them instead." });
     }
-  }, [toast]);
+  }, [addFiles, toast]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const error = validateFile(file);
-      if (error) {
-        toast({ variant: "destructive", title: "Invalid file", description: error });
-        return;
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow selecting the same files again after removing them
+    e.target.value = "";
+  };
+
+  // Hashes the file and stops at "duplicate" if the user already has a
+  // note for it, unless they chose to upload it anyway. Resolves with the
+  // hash, or null if the file could not be hashed (the worker then sets it).
+  const checkDuplicate = async (item: UploadItem, file: File): Promise<string | null | false> => {
+    updateItem(item.id, { status: "uploading", message: "Checking for duplicates..." });
+    try {
+      const hash = item.hash ?? await hashFile(file);
+      const duplicateOf = await findDuplicateNote(hash);
+      if (duplicateOf) {
+        updateItem(item.id, {
+          status: "duplicate",
+          hash,
+          duplicateOf,
+          message: `Already uploaded as ${duplicateOf.file_name}`,
+        });
+        return false;
       }
-      setSelectedFile(file);
-      setUploadStatus("idle");
+      return hash;
+    } catch (error) {
+      console.error("Duplicate check failed:", error);
+      return null;
     }
   };
 
-  const handleUpload = async () => {
-    if (!selectedFile || !user) return;
+  const uploadItem = async (item: UploadItem, { allowDuplicate = false } = {}) => {
+    if (!item.file || !user) return;
+    const file = item.file;
 
-    setUploadStatus("uploading");
-    setUploadProgress(0);
-    setStatusMessage("Uploading file...");
+    const hash = allowDuplicate ? item.hash : await checkDuplicate(item, file);
+    if (hash === false) return;
 
-    try {
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => Math.min(prev + 10, 40));
-      }, 100);
+    updateItem(item.id, { status: "uploading", message: "Uploading file...", hash, duplicateOf: null });
 
-      // Generate unique file path
-      const fileExt = selectedFile.name.split(".").pop();
+    const controller = new AbortController();
+    uploadControllers.current.set(item.id, controller);
+    let noteId: string | null = null;
+    try {
+      // Generate unique file path; an upload that is resumed keeps its own
+      const fileExt = file.name.split(".").pop();
       const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-      const filePath = `${user.id}/${fileName}`;
-
-      // Upload to storage
-      const { error: uploadError } = await supabase.storage
-        .from("notes")
-        .upload(filePath, selectedFile);
 
-      clearInterval(progressInterval);
-      setUploadProgress(50);
-
-      if (uploadError) throw uploadError;
+      // Upload to storage: the first 40% of the bar
+      const filePath = await resumableUpload({
+        bucket: "notes",
+        path: `${user.id}/${fileName}`,
+        file,
+        fingerprint: item.fingerprint ?? uploadFingerprint(user.id, file),
+        signal: controller.signal,
+        onProgress: (uploaded, total) => {
+          updateItem(item.id, {
+            progress: Math.round((uploaded / total) * 40),
+            message: `Uploading ${formatMegabytes(uploaded)} of ${formatMegabytes(total)} MB`,
+          });
+        },
+      });
+      uploadControllers.current.delete(item.id);
 
-      setStatusMessage("Creating record...");
-      setUploadProgress(60);
+      updateItem(item.id, { progress: 45, message: "Creating record..." });
 
       // Create database record
       const { data: noteData, error: dbError } = await supabase.from("notes").insert({
         user_id: user.id,
-        file_name: selectedFile.name,
-        file_type: selectedFile.type,
-        file_size: selectedFile.size,
+        file_name: file.name,
+        file_type: file.type || "application/octet-stream",
+        file_size: file.size,
         file_url: filePath,
+        content_hash: hash,
         status: "processing",
       }).select().single();
 
       if (dbError) throw dbError;
+      noteId = noteData.id;
 
-      setUploadProgress(70);
-      setStatusMessage("Processing notes with AI...");
-      setUploadStatus("processing");
+      updateItem(item.id, { progress: 50, message: "Queueing for processing...", noteId });
 
-      // Trigger processing
-      const { data: processResult, error: processError } = await supabase.functions.invoke("process-notes", {
-        body: { filePath, userId: user.id, noteId: noteData.id },
+      // Queue processing; it continues in the background even if this tab closes
+      const { error: processError } = await supabase.functions.invoke("process-notes", {
+        body: { noteId },
       });
 
       if (processError) {
         console.error("Processing error:", processError);
-        // Don't throw - the note is still uploaded, processing might complete in background
+        // The note is uploaded and can be reprocessed from the dashboard
+        const body = processError instanceof FunctionsHttpError
+          ? await processError.context.json().catch(() => null)
+          : null;
+        updateItem(item.id, {
+          status: "error",
+          message: body?.error || "Uploaded, but processing could not be started. Retry it from your notes.",
+        });
+        return;
+      }
+
+      // The remaining 50% follows the worker's progress on the note
+      updateItem(item.id, { status: "processing" });
+    } catch (error) {
+      if (error instanceof UploadPausedError) {
+        updateItem(item.id, { status: "paused", message: "Paused" });
+        return;
+      }
+      console.error("Upload error:", error);
+      updateItem(item.id, {
+        status: "error",
+        message: error instanceof Error ? error.message : "Upload failed",
+        noteId,
+      });
+    } finally {
+      uploadControllers.current.delete(item.id);
+    }
+  };
+
+  const handlePause = (item: UploadItem) => {
+    uploadControllers.current.get(item.id)?.abort();
+  };
+
+  const handleResume = (item: UploadItem) => {
+    setIsRunning(true);
+    uploadItem(item);
+  };
+
+  // Instead of uploading, follow the note the user already has
+  const handleUseExisting = (item: UploadItem) => {
+    const existing = item.duplicateOf!;
+    if (item.fingerprint) forgetUpload(item.fingerprint);
+    updateItem(item.id, existing.status === "ready"
+      ? { status: "success", progress: 100, noteId: existing.id, message: `Using your note ${existing.file_name}` }
+      : { status: "processing", progress: 50, noteId: existing.id, message: `Following ${existing.file_name}` });
+  };
+
+  // Adds a note under this file's name with the existing note's content
+  const handleLinkExisting = async (item: UploadItem) => {
+    const existing = item.duplicateOf!;
+    updateItem(item.id, { status: "uploading", message: `Copying ${existing.file_name}...` });
+    try {
+      const noteId = await linkDuplicateNote(existing.id, item.name);
+      if (item.fingerprint) forgetUpload(item.fingerprint);
+      updateItem(item.id, { status: "success", progress: 100, noteId, message: `Copied from ${existing.file_name}` });
+    } catch (error) {
+      console.error("Link error:", error);
+      updateItem(item.id, {
+        status: "duplicate",
+        message: error instanceof Error ? error.message : "Could not copy the existing note",
+      });
+    }
+  };
+
+  const handleUploadAnyway = (item: UploadItem) => {
+    uploadItem(item, { allowDuplicate: true });
+  };
+
+  const handleRemove = (item: UploadItem) => {
+    uploadControllers.current.get(item.id)?.abort();
+    // A removed upload is not resumed later
+    if (item.fingerprint && item.noteId === null) forgetUpload(item.fingerprint);
+    setItems(prev => prev.filter(i => i.id !== item.id));
+  };
+
+  const handleUpload = async () => {
+    const queue = items.filter(item => item.status === "pending" || canRetry(item));
+    if (queue.length === 0 || !user) return;
+
+    // Failed files go back in line, so the batch is not done before they run
+    const queued = new Set(queue.map(item => item.id));
+    setItems(prev => prev.map(item => (queued.has(item.id) ? { ...item, status: "pending", progress: 0, message: "" } : item)));
+    setIsRunning(true);
+    let next = 0;
+    const workers = Array.from({ length: Math.min(UPLOAD_CONCURRENCY, queue.length) }, async () => {
+      while (next < queue.length) {
+        await uploadItem(queue[next++]);
       }
+    });
+    await Promise.all(workers);
+  };
 
-      setUploadProgress(100);
-      setUploadStatus("success");
-      setStatusMessage("Upload complete!");
+  // Follow processing of every uploaded note until it is ready or has failed
+  const isTracking = items.some(item => item.status === "processing");
+  useEffect(() => {
+    if (!isTracking || !user) return;
 
+    const applyProgress = (note: ProcessingProgress & { id: string; status: string; error_message: string | null }) => {
+      setItems(prev => prev.map(item => {
+        if (item.noteId !== note.id || item.status !== "processing") return item;
+        if (note.status === "ready") {
+          // An unpacked ZIP says what it imported
+          return { ...item, status: "success", progress: 100, message: note.processing_detail || "Processed" };
+        }
+        if (note.status === "error") {
+          return { ...item, status: "error", message: note.error_message || "Processing failed. Retry it from your notes." };
+        }
+        return { ...item, progress: 50 + Math.round(note.processing_progress / 2), message: describeProcessing(note) };
+      }));
+    };
+
+    const fetchProgress = async () => {
+      const noteIds = itemsRef.current
+        .filter(item => item.status === "processing" && item.noteId)
+        .map(item => item.noteId!);
+      if (noteIds.length === 0) return;
+
+      const { data: notes, error } = await supabase
+        .from("notes")
+        .select("id, status, error_message, processing_stage, processing_progress, processing_detail")
+        .in("id", noteIds);
+
+      if (error) {
+        console.error("Error fetching processing progress:", error);
+        return;
+      }
+      notes.forEach(applyProgress);
+    };
+
+    const channel = supabase
+      .channel(`upload-progress:${user.id}`)
+      .on<Tables<"note_cards">>(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "note_cards", filter: `user_id=eq.${user.id}` },
+        (payload) => applyProgress(payload.new)
+      )
+      .subscribe((status) => {
+        // Processing may have moved on before the subscription was ready
+        if (status === "SUBSCRIBED") fetchProgress();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isTracking, user]);
+
+  const reset = useCallback(() => {
+    setItems([]);
+    setIsRunning(false);
+  }, []);
+
+  // Unlike reset, also drops the unfinished uploads, so they are not
+  // offered for resuming again
+  const handleClear = () => {
+    items.forEach(item => item.fingerprint && item.noteId === null && forgetUpload(item.fingerprint));
+    reset();
+  };
+
+  useEffect(() => () => clearTimeout(closeTimer.current), []);
+
+  // Summarize once every file of the batch is uploaded and processed. An
+  // unpacked ZIP counts through its documents, not itself.
+  const succeededCount = items.filter(item => item.status === "success" && item.noteId !== null).length;
+  const failedCount = items.filter(item => item.status === "error").length;
+  const batchDone = isRunning && items.length > 0 && !items.some(isActive);
+  useEffect(() => {
+    if (!batchDone) return;
+    setIsRunning(false);
+
+    if (failedCount === 0) {
       toast({
         title: "Upload successful!",
-        description: "Your notes have been uploaded and processed.",
+        description: succeededCount === 1
+          ? "Your notes have been uploaded and processed."
+          : `${succeededCount} notes have been uploaded and processed.`,
       });
-
       // Small delay to show success state
-      setTimeout(() => {
-        setSelectedFile(null);
-        setUploadStatus("idle");
-        setUploadProgress(0);
+      closeTimer.current = setTimeout(() => {
+        reset();
         onUploadComplete();
       }, 1500);
-
-    } catch (error) {
-      console.error("Upload error:", error);
-      setUploadStatus("error");
-      setStatusMessage(error instanceof Error ? error.message : "Upload failed");
-      toast({
-        variant: "destructive",
-        title: "Upload failed",
-        description: error instanceof Error ? error.message : "Please try again.",
-      });
+      return;
     }
-  };
 
-  const getFileTypeLabel = (type: string) => {
-    if (type.includes("pdf")) return "PDF";
-    if (type.includes("word") || type.includes("document")) return "DOC";
-    if (type.includes("presentation") || type.includes("powerpoint")) return "PPT";
-    if (type.includes("text")) return "TXT";
+    toast({
+      variant: "destructive",
+      title: "Some files failed",
+      description: `${succeededCount} processed, ${failedCount} failed.`,
+    });
+  }, [batchDone, succeededCount, failedCount, toast, reset, onUploadComplete]);
+
+  const getFileTypeLabel = (name: string) => {
+    const extension = name.split(".").pop()?.toLowerCase();
+    if (extension === "tex") return "LaTeX";
+    if (extension === "md" || extension === "markdown") return "Markdown";
+    if (extension === "zip") return "ZIP";
+    if (extension === "pdf") return "PDF";
+    if (extension === "doc" || extension === "docx") return "DOC";
+    if (extension === "ppt" || extension === "pptx") return "PPT";
+    if (extension === "txt") return "TXT";
+    if (["png", "jpg", "jpeg", "heic", "heif"].includes(extension ?? "")) return "Image";
     return "FILE";
   };
 
-  const getStatusColor = () => {
-    switch (uploadStatus) {
+  const getStatusIcon = (status: ItemStatus) => {
+    switch (status) {
       case "uploading":
       case "processing":
-        return "bg-primary";
+        return <Loader2 className="w-5 h-5 animate-spin text-primary" />;
       case "success":
-        return "bg-success";
+        return <CheckCircle className="w-5 h-5 text-success" />;
       case "error":
-        return "bg-destructive";
+        return <AlertCircle className="w-5 h-5 text-destructive" />;
+      case "paused":
+        return <Pause className="w-5 h-5 text-muted-foreground" />;
+      case "duplicate":
+        return <Copy className="w-5 h-5 text-warning" />;
       default:
-        return "bg-primary";
+        return <FileText className="w-5 h-5" />;
     }
   };
 
-  const isUploading = uploadStatus === "uploading" || uploadStatus === "processing";
+  const pendingCount = items.filter(item => item.status === "pending").length;
+  const retryCount = items.filter(canRetry).length;
+  const hasFinished = !isRunning && items.some(item => item.status === "success" || item.status === "error");
 
   return (
     <div className="space-y-4">
       {/* Drop Zone */}
       <div
-        className={`upload-zone cursor-pointer ${dragActive ? "active" : ""} ${isUploading ? "pointer-events-none opacity-70" : ""}`}
+        className={`upload-zone cursor-pointer ${dragActive ? "active" : ""} ${isRunning ? "pointer-events-none opacity-70" : ""}`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
         onDrop={handleDrop}
-        onClick={() => !isUploading && document.getElementById("file-input")?.click()}
+        onClick={() => !isRunning && document.getElementById("file-input")?.click()}
       >
         <input
           id="file-input"
           type="file"
-          accept=".pdf,.doc,.docx,.ppt,.pptx,.txt"
+          accept=".pdf,.doc,.docx,.ppt,.pptx,.txt,.md,.markdown,.tex,.zip,.png,.jpg,.jpeg,.heic,.heif"
+          onChange={handleFileSelect}
+          className="hidden"
+          disabled={isRunning}
+          multiple
+        />
+        <input
+          id="folder-input"
+          type="file"
           onChange={handleFileSelect}
           className="hidden"
-          disabled={isUploading}
+          disabled={isRunning}
+          {...{ webkitdirectory: "" }}
         />
-        
+
         <Upload className="w-10 h-10 text-muted-foreground mx-auto mb-4" />
         <p className="font-medium">
-          Drag and drop your file here, or click to browse
+          Drag and drop files or folders here, or click to browse
         </p>
         <p className="text-sm text-muted-foreground mt-2">
-          PDF, DOC, DOCX, PPT, PPTX, TXT • Max 50MB
+          PDF, DOC, DOCX, PPT, PPTX, TXT, MD, TEX, ZIP, PNG, JPG, HEIC • Max 50MB per file
         </p>
+        <Button
+          variant="link"
+          size="sm"
+          className="mt-1"
+          onClick={(e) => {
+            e.stopPropagation();
+            document.getElementById("folder-input")?.click();
+          }}
+        >
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Choose a folder
+        </Button>
       </div>
 
-      {/* Selected File */}
-      {selectedFile && (
+      {/* Upload Queue */}
+      {items.length > 0 && (
         <div className="p-4 bg-secondary rounded-lg space-y-3">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-lg bg-background flex items-center justify-center">
-                {uploadStatus === "success" ? (
-                  <CheckCircle className="w-5 h-5 text-success" />
-                ) : (
-                  <FileText className="w-5 h-5" />
-                )}
-              </div>
-              <div>
-                <p className="font-medium text-sm">{selectedFile.name}</p>
-                <p className="text-xs text-muted-foreground">
-                  {getFileTypeLabel(selectedFile.type)} • {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB
-                </p>
-              </div>
-            </div>
-            
-            {!isUploading && uploadStatus !== "success" && (
-              <div className="flex items-center gap-2">
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => setSelectedFile(null)}
-                >
-                  <X className="w-4 h-4" />
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm font-medium">
+              {hasFinished
+                ? `${succeededCount} succeeded, ${failedCount} failed`
+                : `${items.length} ${items.length === 1 ? "file" : "files"}`}
+            </p>
+            <div className="flex items-center gap-2">
+              {!isRunning && (
+                <Button variant="ghost" size="sm" onClick={handleClear}>
+                  Clear
                 </Button>
-                <Button onClick={handleUpload}>
+              )}
+              {!isRunning && retryCount > 0 && pendingCount === 0 && (
+                <Button size="sm" variant="outline" onClick={handleUpload}>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Retry failed
+                </Button>
+              )}
+              {!isRunning && pendingCount > 0 && (
+                <Button size="sm" onClick={handleUpload}>
                   <Upload className="w-4 h-4 mr-2" />
-                  Upload
+                  Upload {pendingCount === 1 ? "file" : `${pendingCount} files`}
                 </Button>
-              </div>
-            )}
+              )}
+              {hasFinished && pendingCount === 0 && (
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    reset();
+                    onUploadComplete();
+                  }}
+                >
+                  Done
+                </Button>
+              )}
+            </div>
           </div>
-          
-          {/* Progress Bar */}
-          {(isUploading || uploadStatus === "success") && (
-            <div className="space-y-2">
-              <div className="flex items-center justify-between text-sm">
-                <span className="flex items-center gap-2">
-                  {isUploading && <Loader2 className="w-4 h-4 animate-spin" />}
-                  {uploadStatus === "success" && <CheckCircle className="w-4 h-4 text-success" />}
-                  {statusMessage}
-                </span>
-                <span className="font-medium">{uploadProgress}%</span>
+
+          <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+            {items.map((item) => (
+              <div key={item.id} className="p-3 bg-background rounded-lg space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-lg bg-secondary flex items-center justify-center flex-shrink-0">
+                    {getStatusIcon(item.status)}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-sm truncate">{item.name}</p>
+                    <p className={`text-xs truncate ${item.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+                      {item.message || getFileTypeLabel(item.name)}
+                      {item.file && item.status !== "uploading" && ` • ${(item.size / (1024 * 1024)).toFixed(2)} MB`}
+                    </p>
+                  </div>
+                  {(item.status === "uploading" || item.status === "processing") && (
+                    <span className="text-xs font-medium">{item.progress}%</span>
+                  )}
+                  {item.status === "uploading" && uploadControllers.current.has(item.id) && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handlePause(item)} title="Pause">
+                      <Pause className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {item.status === "paused" && item.file && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleResume(item)} title="Resume">
+                      <Play className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {(item.status === "paused" || item.status === "duplicate" || (!isRunning && (item.status === "pending" || item.status === "error"))) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleRemove(item)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                {item.status === "duplicate" && (
+                  <div className="flex flex-wrap gap-2 pl-11">
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => handleUseExisting(item)}>
+                      Use existing note
+                    </Button>
+                    {item.duplicateOf?.status === "ready" && (
+                      <Button size="sm" variant="outline" className="h-7" onClick={() => handleLinkExisting(item)}>
+                        Add a copy
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" className="h-7" onClick={() => handleUploadAnyway(item)}>
+                      Upload anyway
+                    </Button>
+                  </div>
+                )}
+                {(item.status === "uploading" || item.status === "processing" || (item.status === "paused" && item.progress > 0)) && (
+                  <Progress value={item.progress} className="h-1.5" />
+                )}
               </div>
-              <Progress value={uploadProgress} className={getStatusColor()} />
-            </div>
-          )}
-          
-          {uploadStatus === "error" && (
-            <div className="flex items-center justify-between">
-              <p className="text-sm text-destructive">{statusMessage}</p>
-              <Button size="sm" variant="outline" onClick={handleUpload}>
-                Retry
-              </Button>
-            </div>
-          )}
+            ))}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,176 @@
+import { useState, useMemo, useRef, useDeferredValue } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, CheckCircle2, Loader2, Save } from "lucide-react";
+import MathRenderer from "@/components/MathRenderer";
+import { findMathErrors } from "@/lib/math-lint";
+
+interface NoteEditorProps {
+  noteId: string;
+  initialContent: string;
+  // Called after the edit has been saved as a new version
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// Must match the textarea's line height (leading-6) so the gutter lines up
+const LINE_HEIGHT_PX = 24;
+
+export default function NoteEditor({ noteId, initialContent, onSaved, onCancel }: NoteEditorProps) {
+  const [content, setContent] = useState(initialContent);
+  const [isSaving, setIsSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  // Rendering math on every keystroke is slow for long notes; let the
+  // preview and error check lag behind typing instead
+  const previewContent = useDeferredValue(content);
+  const errors = useMemo(() => findMathErrors(previewContent), [previewContent]);
+  const errorLines = useMemo(() => new Set(errors.map((error) => error.line)), [errors]);
+  const lineCount = useMemo(() => content.split("\n").length, [content]);
+  const isDirty = content !== initialContent;
+
+  const handleScroll = () => {
+    if (gutterRef.current && textareaRef.current) {
+      gutterRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  const jumpToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    let offset = 0;
+    for (let i = 1; i < line; i++) {
+      offset = content.indexOf("\n", offset) + 1;
+    }
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+    textarea.scrollTop = Math.max((line - 3) * LINE_HEIGHT_PX, 0);
+  };
+
+  const handleSave = async () => {
+    if (!isDirty) {
+      onCancel();
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc("add_note_version", {
+        p_note_id: noteId,
+        p_content: content,
+        p_source: "edit",
+      });
+
+      if (error) throw error;
+      toast({
+        title: "Note saved",
+        description: "Your edit was saved as a new version.",
+      });
+      onSaved();
+    } catch (error) {
+      console.error("Save error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save your changes.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between gap-4 px-4 py-2 border-b">
+        <div className="flex items-center gap-2 text-sm">
+          {errors.length === 0 ? (
+            <>
+              <CheckCircle2 className="w-4 h-4 text-success" />
+              <span className="text-muted-foreground">All math renders</span>
+            </>
+          ) : (
+            <>
+              <AlertCircle className="w-4 h-4 text-destructive" />
+              <span className="text-destructive">
+                {errors.length} math {errors.length === 1 ? "error" : "errors"}
+              </span>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <ResizablePanelGroup direction="horizontal" className="flex-1">
+        {/* Markdown source */}
+        <ResizablePanel defaultSize={50} minSize={25} className="flex flex-col">
+          <div className="flex-1 flex min-h-0 font-mono text-sm leading-6">
+            <div
+              ref={gutterRef}
+              aria-hidden
+              className="w-12 flex-shrink-0 overflow-hidden border-r bg-muted/50 py-3 text-right select-none"
+            >
+              {Array.from({ length: lineCount }, (_, index) => (
+                <div
+                  key={index}
+                  className={`pr-2 ${errorLines.has(index + 1) ? "bg-destructive/15 text-destructive font-semibold" : "text-muted-foreground"}`}
+                >
+                  {index + 1}
+                </div>
+              ))}
+            </div>
+            <textarea
+              ref={textareaRef}
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              onScroll={handleScroll}
+              wrap="off"
+              spellCheck={false}
+              className="flex-1 min-w-0 resize-none bg-background px-3 py-3 outline-none"
+            />
+          </div>
+
+          {errors.length > 0 && (
+            <div className="max-h-32 overflow-y-auto border-t">
+              <ul className="py-1 text-xs">
+                {errors.map((error, index) => (
+                  <li key={index}>
+                    <button
+                      onClick={() => jumpToLine(error.line)}
+                      className="w-full text-left px-3 py-1 hover:bg-secondary/50"
+                    >
+                      <span className="font-medium text-destructive">Line {error.line}:</span>{" "}
+                      <span className="text-muted-foreground">{error.message}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </ResizablePanel>
+
+        <ResizableHandle withHandle />
+
+        {/* Live preview */}
+        <ResizablePanel defaultSize={50} minSize={25}>
+          <ScrollArea className="h-full">
+            <div className="p-6 prose prose-slate dark:prose-invert max-w-none">
+              <MathRenderer content={previewContent} />
+            </div>
+          </ScrollArea>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+}
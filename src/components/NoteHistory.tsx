@@ -0,0 +1,210 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import MathRenderer from "@/components/MathRenderer";
+import { diffBlocks } from "@/lib/diff";
+
+interface NoteVersion {
+  id: string;
+  version_number: number;
+  content: string;
+  source: string;
+  model: string | null;
+  created_at: string;
+}
+
+interface NoteHistoryProps {
+  noteId: string;
+  currentContent: string;
+  // Called after a version has been restored, to reload the note
+  onRestored: () => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  extraction: "Extracted text",
+  ai: "AI structuring",
+  edit: "Manual edit",
+  restore: "Restored",
+};
+
+const ROW_STYLES = {
+  same: { left: "opacity-60", right: "opacity-60" },
+  changed: { left: "bg-destructive/10", right: "bg-success/10" },
+  removed: { left: "bg-destructive/10", right: "" },
+  added: { left: "", right: "bg-success/10" },
+};
+
+export default function NoteHistory({ noteId, currentContent, onRestored }: NoteHistoryProps) {
+  const [versions, setVersions] = useState<NoteVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { toast } = useToast();
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("note_versions")
+        .select("id, version_number, content, source, model, created_at")
+        .eq("note_id", noteId)
+        .order("version_number", { ascending: false });
+
+      if (error) throw error;
+      setVersions(data || []);
+      // Start with the version before the current one, the usual question
+      // being "what did the last change do?"
+      setSelectedId(data && data.length > 1 ? data[1].id : data?.[0]?.id ?? null);
+    } catch (error) {
+      console.error("Error fetching versions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [noteId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const selected = versions.find((v) => v.id === selectedId) ?? null;
+  const isCurrent = selected !== null && selected.content === currentContent;
+
+  const rows = useMemo(
+    () => (selected ? diffBlocks(selected.content, currentContent) : []),
+    [selected, currentContent],
+  );
+  const visibleRows = showUnchanged ? rows : rows.filter((row) => row.type !== "same");
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const { error } = await supabase.rpc("add_note_version", {
+        p_note_id: noteId,
+        p_content: selected.content,
+        p_source: "restore",
+      });
+
+      if (error) throw error;
+      toast({
+        title: "Version restored",
+        description: `Version ${selected.version_number} is now the current version.`,
+      });
+      onRestored();
+    } catch (error) {
+      console.error("Restore error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to restore this version.",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center p-8">
+        <History className="w-10 h-10 text-muted-foreground mb-3" />
+        <p className="text-muted-foreground">No earlier versions of this note yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex">
+      {/* Version list */}
+      <ScrollArea className="w-56 flex-shrink-0 border-r">
+        <div className="p-2 space-y-1">
+          {versions.map((version, index) => (
+            <button
+              key={version.id}
+              onClick={() => setSelectedId(version.id)}
+              className={`w-full text-left rounded-md px-3 py-2 text-sm transition-colors ${
+                version.id === selectedId ? "bg-secondary" : "hover:bg-secondary/50"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">Version {version.version_number}</span>
+                {index === 0 && <Badge variant="secondary">Current</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {SOURCE_LABELS[version.source] ?? version.source} • {formatDate(version.created_at)}
+              </p>
+              {version.model && (
+                <p className="text-xs text-muted-foreground truncate" title={version.model}>
+                  {version.model}
+                </p>
+              )}
+            </button>
+          ))}
+        </div>
+      </ScrollArea>
+
+      {/* Side-by-side diff against the current version */}
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="flex items-center justify-between gap-4 px-4 py-2 border-b">
+          <div className="flex items-center gap-2">
+            <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+            <Label htmlFor="show-unchanged" className="text-sm">Show unchanged</Label>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleRestore} disabled={!selected || isCurrent || isRestoring}>
+            {isRestoring ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+            Restore this version
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 border-b text-xs font-medium text-muted-foreground">
+          <div className="px-4 py-2">Version {selected?.version_number}</div>
+          <div className="px-4 py-2 border-l">Current</div>
+        </div>
+
+        <ScrollArea className="flex-1">
+          {isCurrent ? (
+            <p className="p-6 text-sm text-muted-foreground text-center">
+              This version has the same content as the current one.
+            </p>
+          ) : visibleRows.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground text-center">No differences.</p>
+          ) : (
+            visibleRows.map((row, index) => (
+              <div key={index} className="grid grid-cols-2 border-b last:border-b-0">
+                <div className={`px-4 py-2 min-w-0 overflow-x-auto ${ROW_STYLES[row.type].left}`}>
+                  {row.left && <MathRenderer content={row.left} />}
+                </div>
+                <div className={`px-4 py-2 min-w-0 overflow-x-auto border-l ${ROW_STYLES[row.type].right}`}>
+                  {row.right && <MathRenderer content={row.right} />}
+                </div>
+              </div>
+            ))
+          )}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { daysLeftInTrash, purgeNotes, TRASH_RETENTION_DAYS } from "@/lib/trash";
+
+interface TrashedNote {
+  id: string;
+  file_name: string;
+  deleted_at: string;
+}
+
+interface NoteTrashProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// What the confirmation dialog is about to delete for good
+type PendingPurge = { kind: "note"; note: TrashedNote } | { kind: "all" };
+
+export default function NoteTrash({ open, onClose }: NoteTrashProps) {
+  const [notes, setNotes] = useState<TrashedNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+  const { toast } = useToast();
+
+  const fetchTrash = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("notes")
+        .select("id, file_name, deleted_at")
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false });
+
+      if (error) throw error;
+      setNotes((data || []).map((note) => ({ ...note, deleted_at: note.deleted_at! })));
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) fetchTrash();
+  }, [open, fetchTrash]);
+
+  const handleRestore = async (note: TrashedNote) => {
+    setBusyId(note.id);
+    try {
+      const { error } = await supabase
+        .from("notes")
+        .update({ deleted_at: null })
+        .eq("id", note.id);
+
+      if (error) throw error;
+      setNotes((prev) => prev.filter((n) => n.id !== note.id));
+      toast({
+        title: "Note restored",
+        description: `${note.file_name} is back in your notes.`,
+      });
+    } catch (error) {
+      console.error("Restore error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to restore the note.",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (purge: PendingPurge) => {
+    setPendingPurge(null);
+    setBusyId(purge.kind === "note" ? purge.note.id : "all");
+    try {
+      const purged = await purgeNotes(purge.kind === "note" ? [purge.note.id] : undefined);
+      toast({
+        title: purge.kind === "note" ? "Note deleted" : "Trash emptied",
+        description: purged === 1 ? "1 note was permanently deleted." : `${purged} notes were permanently deleted.`,
+      });
+      fetchTrash();
+    } catch (error) {
+      console.error("Purge error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete notes.",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="max-w-lg max-h-[80vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted notes are kept for {TRASH_RETENTION_DAYS} days, then permanently deleted with their chats and
+              study material.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="py-12 flex items-center justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : notes.length === 0 ? (
+            <div className="py-12 flex flex-col items-center justify-center text-center">
+              <Trash2 className="w-10 h-10 text-muted-foreground mb-3" />
+              <p className="text-muted-foreground">The trash is empty.</p>
+            </div>
+          ) : (
+            <>
+              <ScrollArea className="flex-1 -mx-6 px-6">
+                <div className="space-y-2">
+                  {notes.map((note) => (
+                    <div key={note.id} className="flex items-center gap-3 rounded-lg border px-3 py-2">
+                      <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium truncate">{note.file_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Deleted forever in {daysLeftInTrash(note.deleted_at)}{" "}
+                          {daysLeftInTrash(note.deleted_at) === 1 ? "day" : "days"}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRestore(note)}
+                        disabled={busyId !== null}
+                        title="Restore"
+                      >
+                        {busyId === note.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setPendingPurge({ kind: "note", note })}
+                        disabled={busyId !== null}
+                        title="Delete forever"
+                      >
+                        <Trash2 className="w-4 h-4 text-muted-foreground hover:text-destructive" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPendingPurge({ kind: "all" })}
+                  disabled={busyId !== null}
+                  className="text-destructive hover:text-destructive"
+                >
+                  {busyId === "all" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+                  Empty trash
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingPurge !== null} onOpenChange={(isOpen) => !isOpen && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingPurge?.kind === "note" ? `Delete ${pendingPurge.note.file_name} forever?` : "Empty the trash?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The uploaded {pendingPurge?.kind === "note" ? "file" : "files"}, chats and study material will be
+              permanently deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingPurge && handlePurge(pendingPurge)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,19 +1,34 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
 import { 
   ArrowLeft, 
   MessageSquare, 
   FileText, 
   Loader2,
   Download,
-  Eye
+  Eye,
+  RefreshCw,
+  Pencil
 } from "lucide-react";
 import MathRenderer from "@/components/MathRenderer";
+import NoteHistory from "@/components/NoteHistory";
+import NoteEditor from "@/components/NoteEditor";
+import { reprocessNote, STRUCTURING_STYLE_LABELS, type ReprocessOptions, type StructuringStyle } from "@/lib/reprocess";
+import type { Citation } from "@/lib/citations";
 
 interface Note {
   id: string;
@@ -24,23 +39,67 @@ interface Note {
   status: string;
 }
 
+interface NoteChunk {
+  content: string;
+  page_start: number | null;
+}
+
 interface NoteViewerProps {
   noteId: string;
   open: boolean;
   onClose: () => void;
+  // Passage to open the viewer at: a citation from the solver
+  focus?: Citation;
+}
+
+// Finds a cited passage inside original_content. Passages that run across
+// pages do not contain the page markers between them, so the first and
+// last blocks are matched separately; failing that (the note was
+// re-extracted since, or only the page is known), the page itself is
+// used.
+function locatePassage(text: string, chunk: NoteChunk): { start: number; end: number } | null {
+  const exact = chunk.content ? text.indexOf(chunk.content) : -1;
+  if (exact >= 0) return { start: exact, end: exact + chunk.content.length };
+
+  const marker = chunk.page_start ? `[Page ${chunk.page_start}]` : "";
+  const pageAt = marker ? text.indexOf(marker) : -1;
+  const blocks = chunk.content.split(/\n{2,}/).filter((block) => block.trim());
+  const start = blocks.length > 0 ? text.indexOf(blocks[0], Math.max(pageAt, 0)) : -1;
+  if (start < 0) return pageAt >= 0 ? { start: pageAt, end: pageAt + marker.length } : null;
+
+  const last = blocks[blocks.length - 1];
+  const lastAt = text.indexOf(last, start);
+  return { start, end: lastAt >= 0 ? lastAt + last.length : start + blocks[0].length };
 }
 
-export default function NoteViewer({ noteId, open, onClose }: NoteViewerProps) {
+export default function NoteViewer({ noteId, open, onClose, focus }: NoteViewerProps) {
   const [note, setNote] = useState<Note | null>(null);
+  const [focusChunk, setFocusChunk] = useState<NoteChunk | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("processed");
+  const [isEditing, setIsEditing] = useState(false);
+  const focusRef = useRef<HTMLElement>(null);
   const navigate = useNavigate();
+  const { toast } = useToast();
 
   useEffect(() => {
     if (open && noteId) {
+      setIsEditing(false);
       fetchNote();
     }
-  }, [open, noteId]);
+  }, [open, noteId, focus]);
+
+  const passage = useMemo(
+    () => (note?.original_content && focusChunk ? locatePassage(note.original_content, focusChunk) : null),
+    [note, focusChunk],
+  );
+
+  useEffect(() => {
+    if (passage && activeTab === "original") {
+      // Wait for the tab content to mount before scrolling.
+      requestAnimationFrame(() => focusRef.current?.scrollIntoView({ block: "center" }));
+    }
+  }, [passage, activeTab]);
 
   const fetchNote = async () => {
     setIsLoading(true);
@@ -53,6 +112,27 @@ export default function NoteViewer({ noteId, open, onClose }: NoteViewerProps) {
 
       if (error) throw error;
       setNote(data);
+
+      if (focus) {
+        let chunk: NoteChunk | null = focus.passage ? { content: focus.passage, page_start: focus.page_start } : null;
+        // Older citations only name the chunk, which is gone once the note
+        // has been reprocessed; the cited page still locates them
+        if (!chunk) {
+          const { data, error: chunkError } = await supabase
+            .from("note_chunks")
+            .select("content, page_start")
+            .eq("id", focus.chunk_id)
+            .maybeSingle();
+
+          if (chunkError) throw chunkError;
+          chunk = data ?? (focus.page_start ? { content: "", page_start: focus.page_start } : null);
+        }
+        setFocusChunk(chunk);
+        // Passages are located in the extracted text, which keeps page markers
+        if (chunk) setActiveTab("original");
+      } else {
+        setFocusChunk(null);
+      }
     } catch (error) {
       console.error("Error fetching note:", error);
     } finally {
@@ -81,6 +161,30 @@ export default function NoteViewer({ noteId, open, onClose }: NoteViewerProps) {
     }
   };
 
+  const handleReprocess = async (options: ReprocessOptions) => {
+    try {
+      await reprocessNote(noteId, options);
+      toast({
+        title: "Reprocessing started",
+        description: "The current version stays in the note's history.",
+      });
+      // Progress shows on the dashboard card
+      onClose();
+    } catch (error) {
+      console.error("Reprocess error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start reprocessing.",
+      });
+    }
+  };
+
+  const handleSaved = () => {
+    setIsEditing(false);
+    fetchNote();
+  };
+
   const handleStudy = () => {
     onClose();
     navigate(`/solver/${noteId}`);
@@ -88,7 +192,7 @@ export default function NoteViewer({ noteId, open, onClose }: NoteViewerProps) {
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-4xl h-[80vh] flex flex-col p-0">
+      <DialogContent className={`${isEditing ? "max-w-6xl" : "max-w-4xl"} h-[80vh] flex flex-col p-0`}>
         <DialogHeader className="px-6 py-4 border-b flex-shrink-0">
           <div className="flex items-center justify-between">
             <DialogTitle className="flex items-center gap-3">
@@ -98,6 +202,26 @@ export default function NoteViewer({ noteId, open, onClose }: NoteViewerProps) {
               <span className="truncate max-w-[300px]">{note?.file_name || "Loading..."}</span>
             </DialogTitle>
             <div className="flex items-center gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={note?.status === "processing" || isEditing}>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Reprocess
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-60">
+                  <DropdownMenuLabel>Re-run AI structuring</DropdownMenuLabel>
+                  {(Object.keys(STRUCTURING_STYLE_LABELS) as StructuringStyle[]).map((style) => (
+                    <DropdownMenuItem key={style} onClick={() => handleReprocess({ mode: "structure", style })}>
+                      {STRUCTURING_STYLE_LABELS[style]}
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleReprocess({ mode: "extract" })}>
+                    Re-extract text only (no AI)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button variant="outline" size="sm" onClick={handleDownload}>
                 <Download className="w-4 h-4 mr-2" />
                 Download
@@ -125,25 +249,41 @@ export default function NoteViewer({ noteId, open, onClose }: NoteViewerProps) {
         ) : (
           <div className="flex-1 overflow-hidden flex flex-col">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
-              <div className="px-6 border-b">
-                <TabsList className="grid w-full max-w-[300px] grid-cols-2">
+              <div className="px-6 border-b flex items-center justify-between gap-4">
+                <TabsList className="grid w-full max-w-[420px] grid-cols-3">
                   <TabsTrigger value="processed">Processed</TabsTrigger>
-                  <TabsTrigger value="original">Original Text</TabsTrigger>
+                  <TabsTrigger value="original" disabled={isEditing}>Original Text</TabsTrigger>
+                  <TabsTrigger value="history" disabled={isEditing}>History</TabsTrigger>
                 </TabsList>
+                {activeTab === "processed" && !isEditing && (
+                  <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
               </div>
               
               <TabsContent value="processed" className="flex-1 overflow-hidden m-0">
-                <ScrollArea className="h-full">
-                  <div className="p-6 prose prose-slate dark:prose-invert max-w-none">
-                    {note?.processed_content ? (
-                      <MathRenderer content={note.processed_content} />
-                    ) : (
-                      <p className="text-muted-foreground text-center">
-                        No processed content available.
-                      </p>
-                    )}
-                  </div>
-                </ScrollArea>
+                {isEditing ? (
+                  <NoteEditor
+                    noteId={noteId}
+                    initialContent={note?.processed_content || ""}
+                    onSaved={handleSaved}
+                    onCancel={() => setIsEditing(false)}
+                  />
+                ) : (
+                  <ScrollArea className="h-full">
+                    <div className="p-6 prose prose-slate dark:prose-invert max-w-none">
+                      {note?.processed_content ? (
+                        <MathRenderer content={note.processed_content} />
+                      ) : (
+                        <p className="text-muted-foreground text-center">
+                          No processed content available.
+                        </p>
+                      )}
+                    </div>
+                  </ScrollArea>
+                )}
               </TabsContent>
               
               <TabsContent value="original" className="flex-1 overflow-hidden m-0">
@@ -151,7 +291,17 @@ export default function NoteViewer({ noteId, open, onClose }: NoteViewerProps) {
                   <div className="p-6">
                     {note?.original_content ? (
                       <pre className="whitespace-pre-wrap text-sm font-mono bg-muted p-4 rounded-lg">
-                        {note.original_content}
+                        {passage ? (
+                          <>
+                            {note.original_content.slice(0, passage.start)}
+                            <mark ref={focusRef} className="bg-warning/30 text-foreground rounded-sm">
+                              {note.original_content.slice(passage.start, passage.end)}
+                            </mark>
+                            {note.original_content.slice(passage.end)}
+                          </>
+                        ) : (
+                          note.original_content
+                        )}
                       </pre>
                     ) : (
                       <p className="text-muted-foreground text-center">
@@ -161,6 +311,14 @@ export default function NoteViewer({ noteId, open, onClose }: NoteViewerProps) {
                   </div>
                 </ScrollArea>
               </TabsContent>
+
+              <TabsContent value="history" className="flex-1 overflow-hidden m-0">
+                <NoteHistory
+                  noteId={noteId}
+                  currentContent={note?.processed_content || ""}
+                  onRestored={fetchNote}
+                />
+              </TabsContent>
             </Tabs>
           </div>
         )}
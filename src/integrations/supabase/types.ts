@@ -16,27 +16,36 @@ export type Database = {
     Tables: {
       chat_messages: {
         Row: {
+          citations: Json
           content: string
           created_at: string
           id: string
+          image_path: string | null
           note_id: string | null
           role: string
+          thread_id: string | null
           user_id: string
         }
         Insert: {
+          citations?: Json
           content: string
           created_at?: string
           id?: string
+          image_path?: string | null
           note_id?: string | null
           role: string
+          thread_id?: string | null
           user_id: string
         }
         Update: {
+          citations?: Json
           content?: string
           created_at?: string
           id?: string
+          image_path?: string | null
           note_id?: string | null
           role?: string
+          thread_id?: string | null
           user_id?: string
         }
         Relationships: [
@@ -47,11 +56,205 @@ export type Database = {
             referencedRelation: "notes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          created_at: string
+          id: string
+          note_id: string
+          pinned: boolean
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note_id: string
+          pinned?: boolean
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note_id?: string
+          pinned?: boolean
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_threads_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_cards: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          error_message: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          processing_detail: string | null
+          processing_progress: number
+          processing_stage: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at: string
+          deleted_at?: string | null
+          error_message?: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          processing_detail?: string | null
+          processing_progress: number
+          processing_stage?: string | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          error_message?: string | null
+          file_name?: string
+          file_size?: number
+          file_type?: string
+          id?: string
+          processing_detail?: string | null
+          processing_progress?: number
+          processing_stage?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_cards_id_fkey"
+            columns: ["id"]
+            isOneToOne: true
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_chunks: {
+        Row: {
+          content: string
+          created_at: string
+          embedding: string | null
+          heading_path: string[]
+          id: string
+          note_id: string
+          ordinal: number
+          page_end: number | null
+          page_start: number | null
+          token_count: number
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          embedding?: string | null
+          heading_path?: string[]
+          id?: string
+          note_id: string
+          ordinal: number
+          page_end?: number | null
+          page_start?: number | null
+          token_count?: number
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          heading_path?: string[]
+          id?: string
+          note_id?: string
+          ordinal?: number
+          page_end?: number | null
+          page_start?: number | null
+          token_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_chunks_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_versions: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          model: string | null
+          note_id: string
+          prompt: string | null
+          source: string
+          user_id: string
+          version_number: number
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          model?: string | null
+          note_id: string
+          prompt?: string | null
+          source: string
+          user_id: string
+          version_number: number
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          model?: string | null
+          note_id?: string
+          prompt?: string | null
+          source?: string
+          user_id?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_versions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notes: {
         Row: {
+          content_hash: string | null
           created_at: string
+          deleted_at: string | null
           error_message: string | null
           file_name: string
           file_size: number
@@ -60,12 +263,17 @@ export type Database = {
           id: string
           original_content: string | null
           processed_content: string | null
+          processing_detail: string | null
+          processing_progress: number
+          processing_stage: string | null
           status: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          content_hash?: string | null
           created_at?: string
+          deleted_at?: string | null
           error_message?: string | null
           file_name: string
           file_size: number
@@ -74,12 +282,17 @@ export type Database = {
           id?: string
           original_content?: string | null
           processed_content?: string | null
+          processing_detail?: string | null
+          processing_progress?: number
+          processing_stage?: string | null
           status?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          content_hash?: string | null
           created_at?: string
+          deleted_at?: string | null
           error_message?: string | null
           file_name?: string
           file_size?: number
@@ -88,12 +301,71 @@ export type Database = {
           id?: string
           original_content?: string | null
           processed_content?: string | null
+          processing_detail?: string | null
+          processing_progress?: number
+          processing_stage?: string | null
           status?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          note_id: string
+          options: Json
+          run_after: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          note_id: string
+          options?: Json
+          run_after?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          note_id?: string
+          options?: Json
+          run_after?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -121,12 +393,113 @@ export type Database = {
         }
         Relationships: []
       }
+      storage_deletions: {
+        Row: {
+          attempts: number
+          bucket_id: string
+          created_at: string
+          id: string
+          last_error: string | null
+          path: string
+        }
+        Insert: {
+          attempts?: number
+          bucket_id: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          path: string
+        }
+        Update: {
+          attempts?: number
+          bucket_id?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          path?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_note_version: {
+        Args: {
+          p_content: string
+          p_model?: string
+          p_note_id: string
+          p_prompt?: string
+          p_source: string
+        }
+        Returns: {
+          content: string
+          created_at: string
+          id: string
+          model: string | null
+          note_id: string
+          prompt: string | null
+          source: string
+          user_id: string
+          version_number: number
+        }
+      }
+      claim_processing_job: {
+        Args: { p_worker: string }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          note_id: string
+          options: Json
+          run_after: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      invoke_edge_function: {
+        Args: { p_body?: Json; p_name: string }
+        Returns: number
+      }
+      link_duplicate_note: {
+        Args: { p_file_name: string; p_note_id: string }
+        Returns: string
+      }
+      match_note_chunks: {
+        Args: {
+          match_count?: number
+          p_note_id: string
+          query_embedding: string
+        }
+        Returns: {
+          content: string
+          heading_path: string[]
+          id: string
+          ordinal: number
+          page_end: number
+          page_start: number
+          similarity: number
+          token_count: number
+        }[]
+      }
+      purge_notes: {
+        Args: {
+          p_note_ids?: string[]
+          p_older_than?: unknown
+          p_user_id?: string
+        }
+        Returns: number
+      }
+      reap_processing_jobs: {
+        Args: { p_timeout?: unknown }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Photos attached to Solver messages, stored in the chat-attachments bucket
+// under the user's folder (chat_messages.image_path).
+
+const BUCKET = "chat-attachments";
+// Enough to read handwriting; phone photos are several times larger
+const MAX_SIDE = 2048;
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Scales a photo down and re-encodes it as JPEG, which also applies its
+// EXIF orientation. Rejects images the browser cannot decode (HEIC outside
+// Safari, for one).
+export async function prepareChatImage(file: File): Promise<Blob> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error("This image could not be read. Please attach a JPG or PNG photo.");
+  }
+
+  const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext("2d")!;
+  // Transparent areas of a PNG would turn black in a JPEG
+  context.fillStyle = "#fff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("This image could not be read."))),
+      "image/jpeg",
+      0.85,
+    );
+  });
+}
+
+// Stores a prepared image and returns its storage path
+export async function uploadChatImage(userId: string, image: Blob): Promise<string> {
+  const path = `${userId}/${Date.now()}-${crypto.randomUUID().slice(0, 8)}.jpg`;
+  const { error } = await supabase.storage.from(BUCKET).upload(path, image, { contentType: "image/jpeg", upsert: false });
+  if (error) throw error;
+  return path;
+}
+
+// For an image whose message could not be saved
+export async function removeChatImage(path: string): Promise<void> {
+  const { error } = await supabase.storage.from(BUCKET).remove([path]);
+  if (error) console.error("Failed to remove chat image:", error);
+}
+
+// Signed URLs to display stored images, by path
+export async function chatImageUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  for (const item of data) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+}
@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Independent Solver conversations about one note (chat_threads). A thread
+// is created with the first message sent in it, so opening "New chat"
+// leaves nothing behind.
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  pinned: boolean;
+  updated_at: string;
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+// Pinned threads first, then the most recently active
+export function sortThreads(threads: ChatThread[]): ChatThread[] {
+  return [...threads].sort((a, b) =>
+    a.pinned !== b.pinned ? (a.pinned ? -1 : 1) : b.updated_at.localeCompare(a.updated_at),
+  );
+}
+
+// A thread is named after its first question, cut at a word boundary
+export function titleFromQuestion(question: string, hasImage = false): string {
+  const text = question.replace(/\s+/g, " ").trim();
+  if (!text) return hasImage ? "Photo question" : "New chat";
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > MAX_TITLE_LENGTH / 2 ? cut.slice(0, space) : cut).replace(/[\s,.;:]+$/, "")}…`;
+}
+
+export async function listThreads(noteId: string): Promise<ChatThread[]> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .select("id, title, pinned, updated_at")
+    .eq("note_id", noteId);
+
+  if (error) throw error;
+  return sortThreads(data || []);
+}
+
+export async function createThread(userId: string, noteId: string, title: string): Promise<ChatThread> {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .insert({ user_id: userId, note_id: noteId, title })
+    .select("id, title, pinned, updated_at")
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateThread(threadId: string, changes: { title?: string; pinned?: boolean }): Promise<void> {
+  const { error } = await supabase.from("chat_threads").update(changes).eq("id", threadId);
+  if (error) throw error;
+}
+
+// Deletes the thread with its messages; their images are queued for
+// removal (see queue_chat_image_deletion)
+export async function deleteThread(threadId: string): Promise<void> {
+  const { error } = await supabase.from("chat_threads").delete().eq("id", threadId);
+  if (error) throw error;
+}
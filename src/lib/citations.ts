@@ -0,0 +1,45 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// A note passage the tutor cited, as stored in chat_messages.citations.
+// The chunk is replaced when the note is reprocessed, so the viewer finds
+// the passage by its text and pages; citations saved before those were
+// stored only have chunk_id.
+export interface Citation {
+  index: number;
+  note_id?: string;
+  chunk_id: string;
+  page_start: number | null;
+  page_end: number | null;
+  heading: string | null;
+  passage?: string;
+}
+
+export function parseCitations(value: Json | undefined): Citation[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (item) => !!item && typeof item === "object" && !Array.isArray(item) && typeof item.chunk_id === "string",
+  ) as unknown as Citation[];
+}
+
+export function formatCitation(citation: Citation): string {
+  const parts: string[] = [];
+  if (citation.page_start) {
+    parts.push(
+      citation.page_end && citation.page_end !== citation.page_start
+        ? `pp. ${citation.page_start}–${citation.page_end}`
+        : `p. ${citation.page_start}`,
+    );
+  }
+  if (citation.heading) parts.push(citation.heading);
+  return parts.join(" · ") || "Notes";
+}
+
+// The sources whose [n] markers appear in an answer, ignoring math so that
+// \sqrt[3]{x} is not read as a citation. Mirrors the server-side parsing,
+// for answers the user stopped before the server sent its citations.
+export function citedSources(content: string, sources: Citation[]): Citation[] {
+  const prose = content.replace(/\$\$[\s\S]*?\$\$/g, " ").replace(/\$[^$\n]*\$/g, " ");
+  const cited = new Set<number>();
+  for (const match of prose.matchAll(/\[(\d+)\]/g)) cited.add(parseInt(match[1], 10));
+  return sources.filter((source) => cited.has(source.index));
+}
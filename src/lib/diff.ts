@@ -0,0 +1,103 @@
+// Block-level diff of two markdown documents for side-by-side display.
+// Blocks are paragraphs (separated by blank lines), so each side of a row
+// can be rendered with math on its own.
+
+export interface DiffRow {
+  type: "same" | "changed" | "removed" | "added";
+  left: string | null;
+  right: string | null;
+}
+
+// Above this many LCS cells the changed middle is paired up block by block
+// instead; a rerun of AI structuring can rewrite almost every block anyway.
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitBlocks(markdown: string): string[] {
+  return markdown
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean);
+}
+
+type Op = { type: "same" | "removed" | "added"; text: string };
+
+function lcsOps(before: string[], after: string[]): Op[] {
+  const n = before.length;
+  const m = after.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...before.map((text): Op => ({ type: "removed", text })),
+      ...after.map((text): Op => ({ type: "added", text })),
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of before[i..] and after[j..]
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = before[i] === after[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: "same", text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      ops.push({ type: "removed", text: before[i++] });
+    } else {
+      ops.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "removed", text: before[i++] });
+  while (j < m) ops.push({ type: "added", text: after[j++] });
+  return ops;
+}
+
+export function diffBlocks(before: string, after: string): DiffRow[] {
+  const left = splitBlocks(before);
+  const right = splitBlocks(after);
+
+  // The unchanged start and end are cheap to match and keep the LCS small
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix &&
+    suffix < right.length - prefix &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) suffix++;
+
+  const ops: Op[] = [
+    ...left.slice(0, prefix).map((text): Op => ({ type: "same", text })),
+    ...lcsOps(left.slice(prefix, left.length - suffix), right.slice(prefix, right.length - suffix)),
+    ...left.slice(left.length - suffix).map((text): Op => ({ type: "same", text })),
+  ];
+
+  // Pair each run of removals with the additions that follow it, so an
+  // edited paragraph shows next to its new version
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < ops.length; ) {
+    if (ops[k].type === "same") {
+      rows.push({ type: "same", left: ops[k].text, right: ops[k].text });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < ops.length && ops[k].type === "removed") removed.push(ops[k++].text);
+    while (k < ops.length && ops[k].type === "added") added.push(ops[k++].text);
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      const l = removed[r] ?? null;
+      const a = added[r] ?? null;
+      rows.push({ type: l !== null && a !== null ? "changed" : l !== null ? "removed" : "added", left: l, right: a });
+    }
+  }
+  return rows;
+}
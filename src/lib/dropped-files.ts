@@ -0,0 +1,37 @@
+// Collects the files of a drop, descending into dropped folders. Browsers
+// only list top-level items in dataTransfer.files, and a folder shows up
+// there as an unreadable entry.
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns at most ~100 entries per call, so it is called until
+// it comes back empty.
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collect(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) return [await readFile(entry as FileSystemFileEntry)];
+  if (!entry.isDirectory) return [];
+  const children = await readDirectory(entry as FileSystemDirectoryEntry);
+  return (await Promise.all(children.map(collect))).flat();
+}
+
+export async function filesFromDrop(dataTransfer: DataTransfer): Promise<File[]> {
+  // The entries must be taken before the first await: the drop's data
+  // transfer is emptied once the event handler returns.
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+  return (await Promise.all(entries.map(collect))).flat();
+}
@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Uploads are recognised by the SHA-256 of their contents (notes.content_hash),
+// so the same slides under another name are still found.
+
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export interface DuplicateNote {
+  id: string;
+  file_name: string;
+  status: string;
+}
+
+// The user's note for a file with this hash that is ready or still
+// processing. Failed notes are left out, so uploading again retries them.
+export async function findDuplicateNote(hash: string): Promise<DuplicateNote | null> {
+  const { data, error } = await supabase
+    .from("notes")
+    .select("id, file_name, status")
+    .eq("content_hash", hash)
+    .is("deleted_at", null)
+    .in("status", ["ready", "processing"])
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Creates a note named fileName from a processed duplicate, sharing its
+// file and copying its content (see link_duplicate_note). Returns the new
+// note's id.
+export async function linkDuplicateNote(noteId: string, fileName: string): Promise<string> {
+  const { data, error } = await supabase.rpc("link_duplicate_note", {
+    p_note_id: noteId,
+    p_file_name: fileName,
+  });
+
+  if (error) throw error;
+  return data;
+}
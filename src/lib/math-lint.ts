@@ -0,0 +1,56 @@
+import katex from "katex";
+
+// KaTeX errors in a markdown document, by line, for the note editor. Math
+// is found with the same delimiters, in the same order, as MathRenderer.
+
+export interface MathError {
+  // 1-based line of the formula's opening delimiter
+  line: number;
+  message: string;
+}
+
+const PATTERNS: Array<{ pattern: RegExp; displayMode: boolean }> = [
+  { pattern: /\$\$([\s\S]*?)\$\$/g, displayMode: true },
+  { pattern: /\$([^$\n]+?)\$/g, displayMode: false },
+  { pattern: /\\\[([\s\S]*?)\\\]/g, displayMode: true },
+  { pattern: /\\\(([\s\S]*?)\\\)/g, displayMode: false },
+];
+
+// Blanks out a matched formula so later patterns do not match inside it,
+// keeping newlines so offsets still map to the same lines.
+function mask(text: string, start: number, end: number): string {
+  return text.slice(0, start) + text.slice(start, end).replace(/[^\n]/g, " ") + text.slice(end);
+}
+
+export function findMathErrors(content: string): MathError[] {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") lineStarts.push(i + 1);
+  }
+  const lineAt = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const errors: MathError[] = [];
+  let remaining = content;
+  for (const { pattern, displayMode } of PATTERNS) {
+    for (const match of [...remaining.matchAll(pattern)]) {
+      const start = match.index ?? 0;
+      try {
+        katex.renderToString(match[1].trim(), { displayMode, throwOnError: true });
+      } catch (error) {
+        const message = error instanceof Error ? error.message.replace(/^KaTeX parse error:\s*/, "") : String(error);
+        errors.push({ line: lineAt(start), message });
+      }
+      remaining = mask(remaining, start, start + match[0].length);
+    }
+  }
+  return errors.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,21 @@
+// Labels for the processing progress the worker stores on each note.
+
+export interface ProcessingProgress {
+  processing_stage: string | null;
+  processing_progress: number;
+  processing_detail: string | null;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  queued: "Waiting to start",
+  downloading: "Downloading file",
+  unpacking: "Unpacking archive",
+  extracting: "Extracting text",
+  structuring: "Structuring with AI",
+  indexing: "Indexing for search",
+  retrying: "Retrying",
+};
+
+export function describeProcessing(note: ProcessingProgress): string {
+  return note.processing_detail || (note.processing_stage && STAGE_LABELS[note.processing_stage]) || "Processing";
+}
@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// "extract" rebuilds the note from the file without AI; "structure" also
+// re-runs AI structuring in the chosen style.
+export type ReprocessMode = "extract" | "structure";
+export type StructuringStyle = "standard" | "concise" | "detailed";
+
+export interface ReprocessOptions {
+  mode?: ReprocessMode;
+  style?: StructuringStyle;
+}
+
+export const STRUCTURING_STYLE_LABELS: Record<StructuringStyle, string> = {
+  standard: "Standard",
+  concise: "Concise revision notes",
+  detailed: "Detailed study notes",
+};
+
+// Queues a note for reprocessing from its stored file. The result becomes
+// a new note version; earlier versions stay in the history.
+export async function reprocessNote(noteId: string, options: ReprocessOptions = {}): Promise<void> {
+  const { error } = await supabase.functions.invoke("reprocess-note", {
+    body: { noteId, ...options },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error || "Failed to start reprocessing");
+  }
+  if (error) throw error;
+}
@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Citation } from "@/lib/citations";
+
+interface SolverRequest {
+  message: string;
+  noteId?: string;
+  // Storage path of a photo attached to the message (see chat-images)
+  imagePath?: string;
+  conversationHistory: { role: string; content: string }[];
+}
+
+interface SolverStreamHandlers {
+  onSources?: (sources: Citation[]) => void;
+  onDelta: (content: string) => void;
+}
+
+type SolverEvent =
+  | { type: "sources"; sources: Citation[] }
+  | { type: "delta"; content: string }
+  | { type: "done"; citations: Citation[] }
+  | { type: "error"; error: string };
+
+// Calls math-solver in streaming mode and feeds the server-sent events to
+// the handlers. supabase.functions.invoke buffers the whole body, so the
+// function URL is fetched directly. Resolves with the answer's citations;
+// rejects with an AbortError when `signal` is aborted.
+export async function streamSolverResponse(
+  request: SolverRequest,
+  handlers: SolverStreamHandlers,
+  signal: AbortSignal,
+): Promise<Citation[]> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/math-solver`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: publishableKey,
+      Authorization: `Bearer ${session?.access_token ?? publishableKey}`,
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Failed to get AI response (${response.status})`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let citations: Citation[] = [];
+
+  // An error event or a bad frame ends the read early; the connection is
+  // closed rather than left open until the server finishes
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+        const data = buffer
+          .slice(0, boundary)
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trim())
+          .join("\n");
+        buffer = buffer.slice(boundary + 2);
+        if (!data) continue;
+
+        const event = JSON.parse(data) as SolverEvent;
+        switch (event.type) {
+          case "sources":
+            handlers.onSources?.(event.sources);
+            break;
+          case "delta":
+            handlers.onDelta(event.content);
+            break;
+          case "done":
+            citations = event.citations;
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  return citations;
+}
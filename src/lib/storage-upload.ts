@@ -0,0 +1,249 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Resumable uploads to Supabase Storage over the TUS protocol
+// (/storage/v1/upload/resumable). The file is sent in chunks; after a
+// dropped connection the upload continues from the last byte the server
+// has, and the upload URL is kept in localStorage so a reload can resume
+// it too once the user picks the same file again.
+// XMLHttpRequest is used for the chunks because fetch has no upload
+// progress events.
+
+const TUS_VERSION = "1.0.0";
+// Supabase Storage requires 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+// Delays between attempts when a request fails on the network
+const RETRY_DELAYS_MS = [1000, 3000, 5000, 10000, 20000];
+// Storage keeps an unfinished upload for 24 hours
+const UPLOAD_URL_LIFETIME_MS = 24 * 60 * 60 * 1000;
+const STORAGE_KEY_PREFIX = "resumable-upload:";
+
+export interface PersistedUpload {
+  fingerprint: string;
+  uploadUrl: string;
+  bucket: string;
+  path: string;
+  fileName: string;
+  size: number;
+  createdAt: number;
+}
+
+// Thrown when an upload is paused through its abort signal. The upload
+// can be resumed later with the same fingerprint.
+export class UploadPausedError extends Error {
+  constructor() {
+    super("Upload paused");
+    this.name = "UploadPausedError";
+  }
+}
+
+// Identifies a file across page loads; File objects themselves cannot be
+// persisted.
+export function uploadFingerprint(userId: string, file: File): string {
+  return `${userId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readPersisted(key: string): PersistedUpload | null {
+  try {
+    const upload = JSON.parse(localStorage.getItem(key) ?? "null") as PersistedUpload | null;
+    if (upload && Date.now() - upload.createdAt < UPLOAD_URL_LIFETIME_MS) return upload;
+  } catch {
+    // Unreadable entry; dropped below
+  }
+  localStorage.removeItem(key);
+  return null;
+}
+
+export function forgetUpload(fingerprint: string) {
+  localStorage.removeItem(STORAGE_KEY_PREFIX + fingerprint);
+}
+
+// Unfinished uploads of a user, e.g. from before a reload
+export function listUnfinishedUploads(userId: string): PersistedUpload[] {
+  const uploads: PersistedUpload[] = [];
+  for (const key of Object.keys(localStorage)) {
+    if (!key.startsWith(`${STORAGE_KEY_PREFIX}${userId}:`)) continue;
+    const upload = readPersisted(key);
+    if (upload) uploads.push(upload);
+  }
+  return uploads.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+class TusError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "TusError";
+  }
+}
+
+async function tusHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  return {
+    apikey: publishableKey,
+    Authorization: `Bearer ${session?.access_token ?? publishableKey}`,
+    "Tus-Resumable": TUS_VERSION,
+  };
+}
+
+function errorMessage(xhr: XMLHttpRequest, fallback: string): string {
+  try {
+    const body = JSON.parse(xhr.responseText);
+    return body.message || body.error || fallback;
+  } catch {
+    return xhr.responseText || fallback;
+  }
+}
+
+// One TUS request. Network failures reject with a TypeError, like fetch.
+function send(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Blob | null,
+  signal: AbortSignal | undefined,
+  onUploadProgress?: (loaded: number) => void,
+): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadPausedError());
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value);
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const done = () => signal?.removeEventListener("abort", onAbort);
+
+    if (onUploadProgress) {
+      xhr.upload.onprogress = (event) => onUploadProgress(event.loaded);
+    }
+    xhr.onload = () => {
+      done();
+      resolve(xhr);
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new TypeError("Network error during upload"));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(new UploadPausedError());
+    };
+    xhr.send(body);
+  });
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  const base64 = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+  return Object.entries(metadata).map(([key, value]) => `${key} ${base64(value)}`).join(",");
+}
+
+async function createUpload(bucket: string, path: string, file: File, signal?: AbortSignal): Promise<string> {
+  const endpoint = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+  const xhr = await send("POST", endpoint, {
+    ...(await tusHeaders()),
+    "Upload-Length": String(file.size),
+    "Upload-Metadata": encodeMetadata({
+      bucketName: bucket,
+      objectName: path,
+      contentType: file.type || "application/octet-stream",
+      cacheControl: "3600",
+    }),
+    "x-upsert": "false",
+  }, null, signal);
+
+  const location = xhr.getResponseHeader("Location");
+  if (xhr.status !== 201 || !location) {
+    throw new TusError(errorMessage(xhr, `Upload failed (${xhr.status})`), xhr.status);
+  }
+  return new URL(location, endpoint).toString();
+}
+
+// The number of bytes the server already has, or null if the upload no
+// longer exists.
+async function fetchOffset(uploadUrl: string, signal?: AbortSignal): Promise<number | null> {
+  const xhr = await send("HEAD", uploadUrl, await tusHeaders(), null, signal);
+  if (xhr.status === 404 || xhr.status === 410 || xhr.status === 403) return null;
+  const offset = Number(xhr.getResponseHeader("Upload-Offset"));
+  if (xhr.status >= 300 || Number.isNaN(offset)) {
+    throw new TusError(`Could not resume upload (${xhr.status})`, xhr.status);
+  }
+  return offset;
+}
+
+async function withRetries<T>(signal: AbortSignal | undefined, run: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      // Only network failures and server errors are worth another try
+      const retryable = error instanceof TypeError || (error instanceof TusError && error.status >= 500);
+      if (!retryable || attempt >= RETRY_DELAYS_MS.length) throw error;
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAYS_MS[attempt]));
+      if (signal?.aborted) throw new UploadPausedError();
+    }
+  }
+}
+
+export interface ResumableUploadOptions {
+  bucket: string;
+  // Object name for a new upload; a resumed upload keeps its original one
+  path: string;
+  file: File;
+  fingerprint: string;
+  onProgress: (uploaded: number, total: number) => void;
+  // Aborting pauses the upload (UploadPausedError)
+  signal?: AbortSignal;
+}
+
+// Uploads a file, continuing an earlier unfinished upload of the same file
+// if there is one. Resolves with the object name the file was stored at.
+export async function resumableUpload({ bucket, path, file, fingerprint, onProgress, signal }: ResumableUploadOptions): Promise<string> {
+  const key = STORAGE_KEY_PREFIX + fingerprint;
+  let upload = readPersisted(key);
+  let offset: number | null = null;
+
+  if (upload && upload.bucket === bucket && upload.size === file.size) {
+    const existing = upload;
+    offset = await withRetries(signal, () => fetchOffset(existing.uploadUrl, signal));
+  }
+  if (!upload || offset === null) {
+    const uploadUrl = await withRetries(signal, () => createUpload(bucket, path, file, signal));
+    upload = { fingerprint, uploadUrl, bucket, path, fileName: file.name, size: file.size, createdAt: Date.now() };
+    localStorage.setItem(key, JSON.stringify(upload));
+    offset = 0;
+  }
+
+  const { uploadUrl } = upload;
+  onProgress(offset, file.size);
+  while (offset < file.size) {
+    const start: number = offset;
+    offset = await withRetries(signal, async () => {
+      const xhr = await send("PATCH", uploadUrl, {
+        ...(await tusHeaders()),
+        "Upload-Offset": String(start),
+        "Content-Type": "application/offset+octet-stream",
+      }, file.slice(start, start + CHUNK_SIZE), signal, (loaded) => onProgress(start + loaded, file.size));
+
+      if (xhr.status === 409) {
+        // The server has a different offset than expected, e.g. after a
+        // chunk whose response was lost; continue from the server's
+        const actual = await fetchOffset(uploadUrl, signal);
+        if (actual === null) throw new TusError("The upload expired. Please upload the file again.", 410);
+        return actual;
+      }
+      if (xhr.status < 200 || xhr.status >= 300) {
+        throw new TusError(errorMessage(xhr, `Upload failed (${xhr.status})`), xhr.status);
+      }
+      const next = Number(xhr.getResponseHeader("Upload-Offset"));
+      if (!(next > start)) throw new TusError("The server did not accept the uploaded data", xhr.status);
+      return next;
+    });
+    onProgress(offset, file.size);
+  }
+
+  forgetUpload(fingerprint);
+  return upload.path;
+}
@@ -0,0 +1,27 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// Deleted notes stay in the trash this long before they are purged
+// (see purge_notes).
+export const TRASH_RETENTION_DAYS = 30;
+
+export function daysLeftInTrash(deletedAt: string): number {
+  const elapsed = (Date.now() - new Date(deletedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(Math.ceil(TRASH_RETENTION_DAYS - elapsed), 0);
+}
+
+// Permanently deletes notes in the trash together with their files, chats
+// and study material. Without noteIds the whole trash is emptied.
+// Returns the number of notes deleted.
+export async function purgeNotes(noteIds?: string[]): Promise<number> {
+  const { data, error } = await supabase.functions.invoke("purge-notes", {
+    body: noteIds ? { noteIds } : { all: true },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new Error(body?.error || "Failed to delete notes");
+  }
+  if (error) throw error;
+  return data?.purged ?? 0;
+}
@@ -2,10 +2,12 @@ import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { 
   BookOpen, 
   Upload, 
@@ -40,9 +42,14 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
 import FileUpload from "@/components/FileUpload";
 import ToolsPanel from "@/components/ToolsPanel";
 import NoteViewer from "@/components/NoteViewer";
+import NoteTrash from "@/components/NoteTrash";
+import { describeProcessing } from "@/lib/processing";
+import { reprocessNote } from "@/lib/reprocess";
+import { TRASH_RETENTION_DAYS } from "@/lib/trash";
 
 interface Note {
   id: string;
@@ -51,9 +58,34 @@ interface Note {
   file_size: number;
   status: string;
   error_message: string | null;
+  processing_stage: string | null;
+  processing_progress: number;
+  processing_detail: string | null;
   created_at: string;
 }
 
+interface JobAttempts {
+  attempts: number;
+  max_attempts: number;
+}
+
+// Only what the note cards show; the content columns can be megabytes.
+const NOTE_CARD_COLUMNS =
+  "id, file_name, file_type, file_size, status, error_message, processing_stage, processing_progress, processing_detail, created_at";
+
+const toCardNote = (row: Tables<"note_cards">): Note => ({
+  id: row.id,
+  file_name: row.file_name,
+  file_type: row.file_type,
+  file_size: row.file_size,
+  status: row.status,
+  error_message: row.error_message,
+  processing_stage: row.processing_stage,
+  processing_progress: row.processing_progress,
+  processing_detail: row.processing_detail,
+  created_at: row.created_at,
+});
+
 interface Profile {
   full_name: string | null;
   email: string | null;
@@ -67,6 +99,9 @@ export default function Dashboard() {
   const [showTools, setShowTools] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [viewingNoteId, setViewingNoteId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  // Attempt counts of unfinished processing jobs, by note
+  const [jobAttempts, setJobAttempts] = useState<Record<string, JobAttempts>>({});
   
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
@@ -76,13 +111,21 @@ export default function Dashboard() {
     if (!user) return;
     
     try {
-      const { data, error } = await supabase
-        .from("notes")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const [{ data, error }, { data: jobs }] = await Promise.all([
+        supabase
+          .from("notes")
+          .select(NOTE_CARD_COLUMNS)
+          .is("deleted_at", null)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("processing_jobs")
+          .select("note_id, attempts, max_attempts")
+          .in("status", ["queued", "running"]),
+      ]);
 
       if (error) throw error;
       setNotes(data || []);
+      setJobAttempts(Object.fromEntries((jobs || []).map((job) => [job.note_id, job])));
     } catch (error) {
       console.error("Error fetching notes:", error);
     } finally {
@@ -122,36 +165,98 @@ export default function Dashboard() {
     fetchProfile();
   }, [user, navigate, fetchNotes, fetchProfile]);
 
-  // Poll for processing updates
+  // Live status, progress and errors for the user's notes and their jobs.
+  // note_cards mirrors the card columns of notes, so updates do not carry
+  // the note content.
   useEffect(() => {
-    const hasProcessing = notes.some(n => n.status === "processing" || n.status === "uploading");
-    
-    if (hasProcessing) {
-      const interval = setInterval(fetchNotes, 3000);
-      return () => clearInterval(interval);
-    }
-  }, [notes, fetchNotes]);
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`dashboard:${user.id}`)
+      .on<Tables<"note_cards">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "note_cards", filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType === "DELETE" || payload.new.deleted_at) {
+            const id = payload.eventType === "DELETE" ? payload.old.id : payload.new.id;
+            setNotes(prev => prev.filter(n => n.id !== id));
+            return;
+          }
+          const note = toCardNote(payload.new);
+          // A note restored from the trash goes back to its place by date
+          setNotes(prev => prev.some(n => n.id === note.id)
+            ? prev.map(n => (n.id === note.id ? note : n))
+            : [...prev, note].sort((a, b) => b.created_at.localeCompare(a.created_at)));
+        }
+      )
+      .on<Tables<"processing_jobs">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "processing_jobs", filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+          const job = payload.new;
+          setJobAttempts(prev => {
+            const { [job.note_id]: _previous, ...rest } = prev;
+            return job.status === "queued" || job.status === "running"
+              ? { ...rest, [job.note_id]: { attempts: job.attempts, max_attempts: job.max_attempts } }
+              : rest;
+          });
+        }
+      )
+      .subscribe((status) => {
+        // Catch up on anything that changed before (re)subscribing
+        if (status === "SUBSCRIBED") fetchNotes();
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchNotes]);
 
   const handleSignOut = async () => {
     await signOut();
     navigate("/");
   };
 
+  const handleRestoreNote = async (noteId: string) => {
+    const { error } = await supabase
+      .from("notes")
+      .update({ deleted_at: null })
+      .eq("id", noteId);
+
+    if (error) {
+      console.error("Error restoring note:", error);
+      toast({
+        variant: "destructive",
+        title: "Error restoring note",
+        description: "You can still restore it from the trash.",
+      });
+      return;
+    }
+    fetchNotes();
+  };
+
   const handleDeleteNote = async (noteId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     
     try {
+      // Deleted notes go to the trash; purge-notes removes them for good
       const { error } = await supabase
         .from("notes")
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq("id", noteId);
 
       if (error) throw error;
       
       setNotes(notes.filter(n => n.id !== noteId));
       toast({
-        title: "Note deleted",
-        description: "The note has been removed.",
+        title: "Moved to trash",
+        description: `The note can be restored for ${TRASH_RETENTION_DAYS} days.`,
+        action: (
+          <ToastAction altText="Undo" onClick={() => handleRestoreNote(noteId)}>
+            Undo
+          </ToastAction>
+        ),
       });
     } catch (error) {
       console.error("Error deleting note:", error);
@@ -170,20 +275,8 @@ export default function Dashboard() {
     if (!note || !user) return;
     
     try {
-      // Update status back to processing
-      await supabase
-        .from("notes")
-        .update({ status: "processing", error_message: null })
-        .eq("id", noteId);
-      
-      // Trigger reprocessing
-      await supabase.functions.invoke("process-notes", {
-        body: { 
-          filePath: note.file_name.includes("/") ? note.file_name : `${user.id}/${note.file_name}`,
-          userId: user.id, 
-          noteId 
-        },
-      });
+      // The function reads the file path from the note and sets it back to processing
+      await reprocessNote(noteId);
       
       toast({
         title: "Reprocessing started",
@@ -196,15 +289,15 @@ export default function Dashboard() {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to restart processing.",
+        description: error instanceof Error ? error.message : "Failed to restart processing.",
       });
     }
   };
 
-  const handleUploadComplete = () => {
+  const handleUploadComplete = useCallback(() => {
     setShowUpload(false);
     fetchNotes();
-  };
+  }, [fetchNotes]);
 
   const handleViewNote = (noteId: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -321,6 +414,17 @@ export default function Dashboard() {
                     <Calculator className="w-4 h-4 mr-3" />
                     Calculator & Tools
                   </Button>
+                  <Button 
+                    variant="ghost" 
+                    className="w-full justify-start"
+                    onClick={() => {
+                      setShowTrash(true);
+                      setMobileMenuOpen(false);
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4 mr-3" />
+                    Trash
+                  </Button>
                   <hr className="my-4" />
                   <Button 
                     variant="ghost" 
@@ -382,6 +486,10 @@ export default function Dashboard() {
                   <Calculator className="w-4 h-4 mr-2" />
                   Calculator & Tools
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowTrash(true)}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Trash
+                </DropdownMenuItem>
                 <DropdownMenuItem>
                   <HelpCircle className="w-4 h-4 mr-2" />
                   Help & Support
@@ -427,7 +535,7 @@ export default function Dashboard() {
                   <div>
                     <h3 className="font-semibold">Upload Lecture Notes</h3>
                     <p className="text-sm text-muted-foreground">
-                      Upload PDF, DOC, DOCX, PPT, PPTX, or TXT files. Maximum 50MB per file.
+                      Upload PDF, DOC, DOCX, PPT, PPTX, TXT, Markdown, or LaTeX files, photos of handwritten notes (PNG, JPG, HEIC), whole folders, or ZIP archives (a zipped LaTeX project stays one note). Scanned pages and photos are read with OCR. Maximum 50MB per file.
                     </p>
                   </div>
                   <Button 
@@ -485,6 +593,19 @@ export default function Dashboard() {
                             <span>•</span>
                             <span>{formatDate(note.created_at)}</span>
                           </div>
+                          {note.status === "processing" && (
+                            <div className="mt-2 space-y-1 max-w-xs">
+                              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                <span className="truncate">
+                                  {describeProcessing(note)}
+                                  {note.processing_stage !== "retrying" && jobAttempts[note.id]?.attempts > 1 &&
+                                    ` · attempt ${jobAttempts[note.id].attempts} of ${jobAttempts[note.id].max_attempts}`}
+                                </span>
+                                <span className="ml-2">{note.processing_progress}%</span>
+                              </div>
+                              <Progress value={note.processing_progress} className="h-1.5" />
+                            </div>
+                          )}
                           {note.error_message && (
                             <p className="text-sm text-destructive mt-1 truncate">
                               {note.error_message}
@@ -536,6 +657,7 @@ export default function Dashboard() {
                           variant="ghost"
                           size="icon"
                           onClick={(e) => handleDeleteNote(note.id, e)}
+                          title="Move to trash"
                         >
                           <Trash2 className="w-4 h-4 text-muted-foreground hover:text-destructive" />
                         </Button>
@@ -587,6 +709,8 @@ export default function Dashboard() {
         </SheetContent>
       </Sheet>
 
+      <NoteTrash open={showTrash} onClose={() => setShowTrash(false)} />
+
       {/* Note Viewer Dialog */}
       {viewingNoteId && (
         <NoteViewer
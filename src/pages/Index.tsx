@@ -18,7 +18,7 @@ export default function Index() {
     {
       icon: FileText,
       title: "Upload Lecture Notes",
-      description: "Support for PDF, DOC, DOCX, PPT, and PPTX files with mathematical notation extraction.",
+      description: "Support for PDF, DOC, DOCX, PPT, PPTX, Markdown, and LaTeX files, plus photos and scans read with OCR, with mathematical notation extraction.",
     },
     {
       icon: Brain,
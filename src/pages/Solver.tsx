@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -12,16 +12,45 @@ import {
   Send, 
   Loader2, 
   Calculator,
-  MessageSquare
+  MessageSquare,
+  FileText,
+  Square,
+  ImagePlus,
+  Camera,
+  X,
+  PanelLeft
 } from "lucide-react";
 import ToolsPanel from "@/components/ToolsPanel";
 import MathRenderer from "@/components/MathRenderer";
+import NoteViewer from "@/components/NoteViewer";
+import ChatThreadList from "@/components/ChatThreadList";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { Citation, citedSources, formatCitation, parseCitations } from "@/lib/citations";
+import { streamSolverResponse } from "@/lib/solver-stream";
+import { chatImageUrls, prepareChatImage, removeChatImage, uploadChatImage } from "@/lib/chat-images";
+import {
+  ChatThread,
+  createThread,
+  deleteThread,
+  listThreads,
+  sortThreads,
+  titleFromQuestion,
+  updateThread,
+} from "@/lib/chat-threads";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
   created_at: string;
+  citations: Citation[];
+  image_path: string | null;
+}
+
+interface Attachment {
+  image: Blob;
+  previewUrl: string;
 }
 
 interface Note {
@@ -37,12 +66,29 @@ export default function Solver() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [showTools, setShowTools] = useState(false);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [showThreads, setShowThreads] = useState(() => window.innerWidth >= 768);
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const [attachment, setAttachment] = useState<Attachment | null>(null);
+  // Displayable URLs of message images, by storage path
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
   
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  // A thread just created by sending its first message, whose messages
+  // are already on screen
+  const createdThreadRef = useRef<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The open thread is in the URL (?thread=), so a chat can be linked to
+  const activeThreadId = searchParams.get("thread");
   const { user } = useAuth();
   const navigate = useNavigate();
+  const isMobile = useIsMobile();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -50,16 +96,64 @@ export default function Solver() {
       navigate("/auth");
       return;
     }
-    fetchNoteAndMessages();
+    fetchNoteAndThreads();
   }, [user, noteId, navigate]);
 
+  useEffect(() => {
+    if (isLoading) return;
+    if (activeThreadId && activeThreadId === createdThreadRef.current) {
+      createdThreadRef.current = null;
+      return;
+    }
+    if (!activeThreadId) {
+      setMessages([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingMessages(true);
+    supabase
+      .from("chat_messages")
+      .select("*")
+      .eq("thread_id", activeThreadId)
+      .order("created_at", { ascending: true })
+      .then(({ data: messagesData, error }) => {
+        if (cancelled) return;
+        setIsLoadingMessages(false);
+        if (error) {
+          console.error("Error fetching messages:", error);
+          toast({
+            variant: "destructive",
+            title: "Error loading chat",
+            description: "Please try again.",
+          });
+          return;
+        }
+        setMessages((messagesData || []).map(m => ({
+          ...m,
+          role: m.role as "user" | "assistant",
+          citations: parseCitations(m.citations),
+        })));
+
+        // A missing thumbnail is not worth failing the chat over
+        const imagePaths = (messagesData || []).flatMap(m => m.image_path ? [m.image_path] : []);
+        chatImageUrls(imagePaths)
+          .then(urls => setImageUrls(prev => ({ ...prev, ...urls })))
+          .catch(error => console.error("Error loading chat images:", error));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeThreadId, isLoading, toast]);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollIntoView({ behavior: "smooth" });
     }
   }, [messages]);
 
-  const fetchNoteAndMessages = async () => {
+  const fetchNoteAndThreads = async () => {
     try {
       const { data: noteData, error: noteError } = await supabase
         .from("notes")
@@ -70,17 +164,15 @@ export default function Solver() {
       if (noteError) throw noteError;
       setNote(noteData);
 
-      const { data: messagesData, error: messagesError } = await supabase
-        .from("chat_messages")
-        .select("*")
-        .eq("note_id", noteId)
-        .order("created_at", { ascending: true });
-
-      if (messagesError) throw messagesError;
-      setMessages((messagesData || []).map(m => ({
-        ...m,
-        role: m.role as "user" | "assistant"
-      })));
+      const noteThreads = await listThreads(noteId!);
+      setThreads(noteThreads);
+
+      // Without a thread in the URL, the most recent one opens
+      const requested = searchParams.get("thread");
+      if (!requested || !noteThreads.some(t => t.id === requested)) {
+        const latest = [...noteThreads].sort((a, b) => b.updated_at.localeCompare(a.updated_at))[0];
+        setSearchParams(latest ? { thread: latest.id } : {}, { replace: true });
+      }
     } catch (error) {
       console.error("Error fetching data:", error);
       toast({
@@ -94,12 +186,50 @@ export default function Solver() {
     }
   };
 
+  const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const image = await prepareChatImage(file);
+      if (attachment) URL.revokeObjectURL(attachment.previewUrl);
+      setAttachment({ image, previewUrl: URL.createObjectURL(image) });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Cannot attach image",
+        description: error instanceof Error ? error.message : "Please try another photo.",
+      });
+    }
+  };
+
+  const handleRemoveAttachment = () => {
+    if (attachment) URL.revokeObjectURL(attachment.previewUrl);
+    setAttachment(null);
+  };
+
+  // Removes a thread created for a first message that could not be saved,
+  // so no empty chat is left in the list or the URL
+  const discardThread = async (threadId: string) => {
+    createdThreadRef.current = null;
+    setThreads(prev => prev.filter(t => t.id !== threadId));
+    setSearchParams({}, { replace: true });
+    try {
+      await deleteThread(threadId);
+    } catch (error) {
+      console.error("Error removing empty chat:", error);
+    }
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || !user || !note) return;
+    if ((!input.trim() && !attachment) || !user || !note) return;
 
     const userMessage = input.trim();
+    const sentAttachment = attachment;
     setInput("");
+    setAttachment(null);
     setIsSending(true);
 
     const tempUserMsg: Message = {
@@ -107,45 +237,105 @@ export default function Solver() {
       role: "user",
       content: userMessage,
       created_at: new Date().toISOString(),
+      citations: [],
+      image_path: null,
     };
     setMessages(prev => [...prev, tempUserMsg]);
 
+    let imagePath: string | undefined;
     try {
+      if (sentAttachment) {
+        imagePath = await uploadChatImage(user.id, sentAttachment.image);
+        // The local copy stands in for the stored image
+        setImageUrls(prev => ({ ...prev, [imagePath!]: sentAttachment.previewUrl }));
+        setMessages(prev => prev.map(m => m.id === tempUserMsg.id ? { ...m, image_path: imagePath! } : m));
+      }
+
+      // A new chat becomes a thread with its first message
+      let threadId = activeThreadId;
+      let newThreadId: string | null = null;
+      if (!threadId) {
+        const thread = await createThread(user.id, noteId!, titleFromQuestion(userMessage, !!sentAttachment));
+        threadId = newThreadId = thread.id;
+        createdThreadRef.current = thread.id;
+        setThreads(prev => sortThreads([...prev, thread]));
+        setSearchParams({ thread: thread.id }, { replace: true });
+      }
+
       const { data: savedUserMsg, error: userMsgError } = await supabase
         .from("chat_messages")
         .insert({
           user_id: user.id,
           note_id: noteId,
+          thread_id: threadId,
           role: "user",
           content: userMessage,
+          image_path: imagePath ?? null,
         })
         .select()
         .single();
 
-      if (userMsgError) throw userMsgError;
+      if (userMsgError) {
+        if (imagePath) await removeChatImage(imagePath);
+        if (newThreadId) await discardThread(newThreadId);
+        throw userMsgError;
+      }
 
       setMessages(prev => prev.map(m => 
-        m.id === tempUserMsg.id ? { ...savedUserMsg, role: savedUserMsg.role as "user" | "assistant" } : m
+        m.id === tempUserMsg.id ? { ...savedUserMsg, role: savedUserMsg.role as "user" | "assistant", citations: [] } : m
       ));
+      setThreads(prev => sortThreads(prev.map(t => t.id === threadId ? { ...t, updated_at: savedUserMsg.created_at } : t)));
 
-      const { data: aiResponse, error: aiError } = await supabase.functions.invoke("math-solver", {
-        body: {
-          message: userMessage,
-          noteContent: note.processed_content,
-          conversationHistory: messages.slice(-10).map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
-        },
-      });
+      // Render the answer as it streams in
+      const streamingId = `streaming-${Date.now()}`;
+      setMessages(prev => [...prev, {
+        id: streamingId,
+        role: "assistant",
+        content: "",
+        created_at: new Date().toISOString(),
+        citations: [],
+        image_path: null,
+      }]);
 
-      if (aiError) {
-        console.error("AI Error:", aiError);
-        throw new Error(aiError.message || "Failed to get AI response");
-      }
+      const controller = new AbortController();
+      abortRef.current = controller;
+      let content = "";
+      let sources: Citation[] = [];
+      let citations: Citation[];
 
-      if (aiResponse?.error) {
-        throw new Error(aiResponse.error);
+      try {
+        citations = await streamSolverResponse(
+          {
+            message: userMessage,
+            noteId,
+            imagePath,
+            // Only the new message's image is sent; earlier ones are noted
+            conversationHistory: messages.slice(-10).map(m => ({
+              role: m.role,
+              content: m.image_path ? `[Attached a photo] ${m.content}`.trim() : m.content,
+            })),
+          },
+          {
+            onSources: (received) => {
+              sources = received;
+            },
+            onDelta: (delta) => {
+              content += delta;
+              setMessages(prev => prev.map(m => m.id === streamingId ? { ...m, content } : m));
+            },
+          },
+          controller.signal,
+        );
+      } catch (streamError) {
+        if (!controller.signal.aborted || !content.trim()) {
+          setMessages(prev => prev.filter(m => m.id !== streamingId));
+          if (!controller.signal.aborted) throw streamError;
+          return;
+        }
+        // Stopped by the user: keep whatever was generated so far
+        citations = citedSources(content, sources);
+      } finally {
+        abortRef.current = null;
       }
 
       const { data: savedAiMsg, error: aiMsgError } = await supabase
@@ -153,14 +343,20 @@ export default function Solver() {
         .insert({
           user_id: user.id,
           note_id: noteId,
+          thread_id: threadId,
           role: "assistant",
-          content: aiResponse.response,
+          content: content || "I couldn't generate a response. Please try again.",
+          citations: citations as unknown as Json,
         })
         .select()
         .single();
 
       if (aiMsgError) throw aiMsgError;
-      setMessages(prev => [...prev, { ...savedAiMsg, role: savedAiMsg.role as "user" | "assistant" }]);
+      setMessages(prev => prev.map(m => m.id === streamingId ? {
+        ...savedAiMsg,
+        role: savedAiMsg.role as "user" | "assistant",
+        citations: parseCitations(savedAiMsg.citations),
+      } : m));
 
     } catch (error) {
       console.error("Error sending message:", error);
@@ -175,10 +371,72 @@ export default function Solver() {
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const openThread = (threadId: string | null) => {
+    setSearchParams(threadId ? { thread: threadId } : {});
+    if (isMobile) setShowThreads(false);
+  };
+
+  const handleRenameThread = async (thread: ChatThread, title: string) => {
+    try {
+      await updateThread(thread.id, { title });
+      setThreads(prev => prev.map(t => t.id === thread.id ? { ...t, title } : t));
+    } catch (error) {
+      console.error("Error renaming chat:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to rename the chat.",
+      });
+    }
+  };
+
+  const handleTogglePin = async (thread: ChatThread) => {
+    try {
+      await updateThread(thread.id, { pinned: !thread.pinned });
+      setThreads(prev => sortThreads(prev.map(t => t.id === thread.id ? { ...t, pinned: !thread.pinned } : t)));
+    } catch (error) {
+      console.error("Error pinning chat:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update the chat.",
+      });
+    }
+  };
+
+  const handleDeleteThread = async (thread: ChatThread) => {
+    try {
+      await deleteThread(thread.id);
+      const remaining = threads.filter(t => t.id !== thread.id);
+      setThreads(remaining);
+      if (thread.id === activeThreadId) {
+        setSearchParams(remaining[0] ? { thread: remaining[0].id } : {}, { replace: true });
+      }
+      toast({
+        title: "Chat deleted",
+        description: thread.title,
+      });
+    } catch (error) {
+      console.error("Error deleting chat:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete the chat.",
+      });
+    }
+  };
+
   const handleSuggestionClick = (suggestion: string) => {
     setInput(suggestion);
   };
 
+  // The spinner gives way to the answer once the first tokens arrive
+  const isStreaming = messages.some(m => m.id.startsWith("streaming-") && m.content);
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -207,24 +465,55 @@ export default function Solver() {
             </div>
           </div>
           
-          <Button 
-            variant="ghost" 
-            size="icon"
-            onClick={() => setShowTools(!showTools)}
-            className={showTools ? "bg-accent text-accent-foreground" : ""}
-          >
-            <Calculator className="w-5 h-5" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowThreads(!showThreads)}
+              className={showThreads ? "bg-accent text-accent-foreground" : ""}
+              title="Chats"
+            >
+              <PanelLeft className="w-5 h-5" />
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="icon"
+              onClick={() => setShowTools(!showTools)}
+              className={showTools ? "bg-accent text-accent-foreground" : ""}
+            >
+              <Calculator className="w-5 h-5" />
+            </Button>
+          </div>
         </div>
       </header>
 
-      <div className="flex flex-1 overflow-hidden">
+      <div className="flex flex-1 overflow-hidden relative">
+        {/* Threads */}
+        {showThreads && (
+          <aside className="w-64 border-r bg-card flex-shrink-0 absolute inset-y-0 left-0 z-20 md:static">
+            <ChatThreadList
+              threads={threads}
+              activeThreadId={activeThreadId}
+              disabled={isSending}
+              onSelect={(thread) => openThread(thread.id)}
+              onNew={() => openThread(null)}
+              onRename={handleRenameThread}
+              onTogglePin={handleTogglePin}
+              onDelete={handleDeleteThread}
+            />
+          </aside>
+        )}
+
         {/* Main Chat Area */}
         <main className="flex-1 flex flex-col overflow-hidden">
           {/* Messages */}
           <ScrollArea className="flex-1 p-4">
             <div className="max-w-3xl mx-auto space-y-4">
-              {messages.length === 0 ? (
+              {isLoadingMessages ? (
+                <div className="py-12 flex items-center justify-center">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : messages.length === 0 ? (
                 <div className="text-center py-12">
                   <MessageSquare className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
                   <h3 className="font-semibold text-lg mb-2">Start Learning</h3>
@@ -251,7 +540,7 @@ export default function Solver() {
                   </div>
                 </div>
               ) : (
-                messages.map((message) => (
+                messages.filter((message) => message.content || message.image_path).map((message) => (
                   <div
                     key={message.id}
                     className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
@@ -263,13 +552,45 @@ export default function Solver() {
                           : "chat-message-assistant"
                       }`}
                     >
-                      <MathRenderer content={message.content} />
+                      {message.image_path && (
+                        imageUrls[message.image_path] ? (
+                          <a href={imageUrls[message.image_path]} target="_blank" rel="noreferrer" className="block">
+                            <img
+                              src={imageUrls[message.image_path]}
+                              alt="Attached photo"
+                              className={`max-h-64 rounded-lg border object-contain ${message.content ? "mb-2" : ""}`}
+                            />
+                          </a>
+                        ) : (
+                          <div className={`w-32 h-24 rounded-lg border bg-muted flex items-center justify-center ${message.content ? "mb-2" : ""}`}>
+                            <ImagePlus className="w-5 h-5 text-muted-foreground" />
+                          </div>
+                        )
+                      )}
+                      {message.content && <MathRenderer content={message.content} />}
+                      {message.citations.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-3 pt-3 border-t border-border/50">
+                          {message.citations.map((citation) => (
+                            <button
+                              key={citation.index}
+                              type="button"
+                              onClick={() => setOpenCitation(citation)}
+                              className="inline-flex items-center gap-1.5 rounded-full border bg-background px-2.5 py-0.5 text-xs font-medium hover:bg-accent hover:text-accent-foreground transition-colors max-w-full"
+                              title="Open this passage in your notes"
+                            >
+                              <FileText className="w-3 h-3 flex-shrink-0" />
+                              <span className="font-semibold">[{citation.index}]</span>
+                              <span className="truncate">{formatCitation(citation)}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))
               )}
               
-              {isSending && (
+              {isSending && !isStreaming && (
                 <div className="flex justify-start">
                   <div className="chat-message-assistant flex items-center gap-2">
                     <Loader2 className="w-4 h-4 animate-spin" />
@@ -284,7 +605,58 @@ export default function Solver() {
 
           {/* Input */}
           <div className="border-t bg-card p-4 flex-shrink-0">
+            {attachment && (
+              <div className="max-w-3xl mx-auto mb-3">
+                <div className="relative inline-block">
+                  <img src={attachment.previewUrl} alt="Photo to send" className="h-20 rounded-lg border object-cover" />
+                  <button
+                    type="button"
+                    onClick={handleRemoveAttachment}
+                    className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-background border flex items-center justify-center hover:bg-accent"
+                    title="Remove photo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            )}
             <form onSubmit={handleSendMessage} className="max-w-3xl mx-auto flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleImageSelected}
+              />
+              <input
+                ref={cameraInputRef}
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={handleImageSelected}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isSending}
+                title="Attach a photo of a problem or your working"
+              >
+                <ImagePlus className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => cameraInputRef.current?.click()}
+                disabled={isSending}
+                className="md:hidden"
+                title="Take a photo"
+              >
+                <Camera className="w-4 h-4" />
+              </Button>
               <Input
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
@@ -292,13 +664,15 @@ export default function Solver() {
                 disabled={isSending}
                 className="flex-1"
               />
-              <Button type="submit" disabled={isSending || !input.trim()}>
-                {isSending ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
+              {isSending ? (
+                <Button type="button" variant="outline" onClick={handleStop} title="Stop generating">
+                  <Square className="w-4 h-4 fill-current" />
+                </Button>
+              ) : (
+                <Button type="submit" disabled={!input.trim() && !attachment}>
                   <Send className="w-4 h-4" />
-                )}
-              </Button>
+                </Button>
+              )}
             </form>
           </div>
         </main>
@@ -310,6 +684,16 @@ export default function Solver() {
           </aside>
         )}
       </div>
+
+      {/* Cited passage */}
+      {openCitation && noteId && (
+        <NoteViewer
+          noteId={openCitation.note_id ?? noteId}
+          focus={openCitation}
+          open={!!openCitation}
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,248 @@
+// Chat completion providers for the edge functions, selected by AI_PROVIDER:
+//
+//   lovable (default)  Lovable AI gateway, authenticated with LOVABLE_API_KEY
+//   openai             any OpenAI-compatible endpoint (OpenAI, llama.cpp,
+//                      Ollama, vLLM...): AI_API_URL is the base URL up to
+//                      /v1, AI_API_KEY is optional for local servers
+//   stub               deterministic offline replies, optionally from a
+//                      fixtures file (AI_STUB_FIXTURES), for development
+//                      and tests without network access
+//
+// Models are chosen per purpose. AI_MODEL overrides both;
+// AI_MODEL_STRUCTURING and AI_MODEL_TUTOR override one each. The openai
+// provider has no defaults, so both purposes must have a model.
+
+import { readCompletionDeltas } from "./sse.ts";
+
+export type AiPurpose = "structuring" | "tutor";
+
+const AI_PURPOSES: AiPurpose[] = ["structuring", "tutor"];
+
+// A part of a multimodal message, in the OpenAI format. Images are passed
+// as data: URLs, so the provider never needs access to storage.
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+// The text of a message, without its images
+export function messageText(message: ChatMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+}
+
+export interface CompletionOptions {
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  name: string;
+  // The model used for `purpose`, recorded with the content it produced
+  modelName(purpose: AiPurpose): string;
+  complete(purpose: AiPurpose, messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+  // Resolves once the provider has accepted the request, so HTTP errors
+  // surface before any output is streamed to the client.
+  stream(purpose: AiPurpose, messages: ChatMessage[], options?: CompletionOptions): Promise<AsyncGenerator<string>>;
+}
+
+// Carries the upstream HTTP status so callers can map rate limits (429)
+// and exhausted credits (402) to their own responses.
+export class AiProviderError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "AiProviderError";
+  }
+
+  // Worth retrying later: timeouts, rate limits, outages.
+  get transient(): boolean {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+// The AI environment variables are missing or inconsistent. Not worth
+// retrying, and not a reason to fall back to raw text: nothing works until
+// the configuration is fixed.
+export class AiConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AiConfigurationError";
+  }
+}
+
+const LOVABLE_MODELS: Record<AiPurpose, string> = {
+  structuring: "google/gemini-2.5-flash-lite",
+  tutor: "google/gemini-2.5-flash",
+};
+
+function modelFor(purpose: AiPurpose, defaults?: Record<AiPurpose, string>): string {
+  const specific = Deno.env.get(`AI_MODEL_${purpose.toUpperCase()}`);
+  const model = specific || Deno.env.get("AI_MODEL") || defaults?.[purpose];
+  if (!model) throw new AiConfigurationError(`No model configured for ${purpose}: set AI_MODEL or AI_MODEL_${purpose.toUpperCase()}`);
+  return model;
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible HTTP providers (the Lovable gateway is one of them)
+// ---------------------------------------------------------------------------
+
+class OpenAiCompatibleProvider implements AiProvider {
+  constructor(
+    readonly name: string,
+    private url: string,
+    private apiKey: string | undefined,
+    private models?: Record<AiPurpose, string>,
+  ) {
+    // A missing model fails here rather than on the first request
+    for (const purpose of AI_PURPOSES) modelFor(purpose, models);
+  }
+
+  modelName(purpose: AiPurpose): string {
+    return modelFor(purpose, this.models);
+  }
+
+  async complete(purpose: AiPurpose, messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const response = await this.request(purpose, messages, false, options.signal);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  async stream(purpose: AiPurpose, messages: ChatMessage[], options: CompletionOptions = {}): Promise<AsyncGenerator<string>> {
+    const response = await this.request(purpose, messages, true, options.signal);
+    if (!response.body) throw new AiProviderError("Empty streaming response", 502);
+    return readCompletionDeltas(response.body);
+  }
+
+  private async request(purpose: AiPurpose, messages: ChatMessage[], stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: "POST",
+        headers,
+        signal,
+        body: JSON.stringify({ model: modelFor(purpose, this.models), messages, stream }),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`${this.name} unreachable:`, error);
+      throw new AiProviderError(`${this.name} is unreachable`, 503);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${this.name} error:`, response.status, errorText);
+      throw new AiProviderError(`AI provider error (${response.status})`, response.status);
+    }
+    return response;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Offline stub
+// ---------------------------------------------------------------------------
+
+interface StubFixture {
+  purpose?: AiPurpose;
+  // Regular expression tested against the last user message
+  match: string;
+  response: string;
+}
+
+let fixtures: StubFixture[] | null = null;
+
+async function loadFixtures(): Promise<StubFixture[]> {
+  if (fixtures) return fixtures;
+  const path = Deno.env.get("AI_STUB_FIXTURES");
+  fixtures = path ? JSON.parse(await Deno.readTextFile(path)) : [];
+  return fixtures!;
+}
+
+// Replies that depend only on the input, so the same upload or question
+// always produces the same note or answer.
+function defaultStubReply(purpose: AiPurpose, messages: ChatMessage[]): string {
+  const last = [...messages].reverse().find((m) => m.role === "user");
+  const question = last ? messageText(last) : "";
+
+  if (purpose === "structuring") {
+    const part = /part (\d+) of \d+/.exec(question)?.[1] ?? "1";
+    const text = question.slice(question.indexOf("\n\n") + 2).replace(/^\[Page \d+\]\s*$/gm, "").trim();
+    return `## Part ${part}\n\n${text}`;
+  }
+
+  const system = messages.find((m) => m.role === "system");
+  const cite = system && /^\[1\]/m.test(messageText(system)) ? " [1]" : "";
+  const image = last && typeof last.content !== "string" && last.content.some((part) => part.type === "image_url");
+  return [
+    `**Given:** ${question}${image ? " (see the attached image)" : ""}`,
+    `**Formula:** The relevant material from your notes${cite}.`,
+    `**Solution:**`,
+    `**Step 1:** This is an offline stub response; no model was called.`,
+    `**Answer:** Configure AI_PROVIDER to get a real solution.`,
+  ].join("\n\n");
+}
+
+class StubProvider implements AiProvider {
+  readonly name = "stub";
+
+  modelName(): string {
+    return "stub";
+  }
+
+  async complete(purpose: AiPurpose, messages: ChatMessage[]): Promise<string> {
+    const last = [...messages].reverse().find((m) => m.role === "user");
+    const question = last ? messageText(last) : "";
+    const fixture = (await loadFixtures()).find(
+      (item) => (!item.purpose || item.purpose === purpose) && new RegExp(item.match, "i").test(question),
+    );
+    return fixture ? fixture.response : defaultStubReply(purpose, messages);
+  }
+
+  async stream(purpose: AiPurpose, messages: ChatMessage[], options: CompletionOptions = {}): Promise<AsyncGenerator<string>> {
+    const reply = await this.complete(purpose, messages);
+    return (async function* () {
+      // Word-sized deltas exercise the same progressive rendering as a real stream.
+      for (const piece of reply.match(/\S+\s*|\s+/g) ?? []) {
+        if (options.signal?.aborted) return;
+        yield piece;
+      }
+    })();
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+export function getAiProvider(): AiProvider {
+  const provider = (Deno.env.get("AI_PROVIDER") || "lovable").toLowerCase();
+  switch (provider) {
+    case "lovable": {
+      const apiKey = Deno.env.get("LOVABLE_API_KEY");
+      if (!apiKey) throw new AiConfigurationError("LOVABLE_API_KEY is not configured");
+      return new OpenAiCompatibleProvider("Lovable AI gateway", "https://ai.gateway.lovable.dev/v1/chat/completions", apiKey, LOVABLE_MODELS);
+    }
+    case "openai": {
+      const baseUrl = Deno.env.get("AI_API_URL");
+      if (!baseUrl) throw new AiConfigurationError("AI_API_URL is not configured");
+      return new OpenAiCompatibleProvider("OpenAI-compatible endpoint", `${baseUrl.replace(/\/+$/, "")}/chat/completions`, Deno.env.get("AI_API_KEY"));
+    }
+    case "stub":
+      return new StubProvider();
+    default:
+      throw new AiConfigurationError(`Unknown AI_PROVIDER: ${provider}`);
+  }
+}
+
+// Whether AI has been set up, for callers that can do without it
+// (process-notes keeps the raw text). Only a project with neither
+// AI_PROVIDER nor LOVABLE_API_KEY has no AI; any other configuration must
+// build a provider, or this throws its AiConfigurationError.
+export function isAiConfigured(): boolean {
+  if (!Deno.env.get("AI_PROVIDER") && !Deno.env.get("LOVABLE_API_KEY")) return false;
+  getAiProvider();
+  return true;
+}
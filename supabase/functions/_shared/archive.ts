@@ -0,0 +1,156 @@
+// Expansion of uploaded ZIP archives into one note per document.
+//
+// A ZIP holding a LaTeX project stays a single note (the extractor
+// resolves its \input files); any other archive is unpacked by its
+// processing job: each supported file is stored as its own upload, gets a
+// note and a processing job, and the archive note itself is purged.
+// An unpacking cut off by a timeout is retried; the files already imported
+// are then found by their hash and not imported twice.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ZipArchive } from "./extractors/zip.ts";
+import { isLatexProject } from "./extractors/latex.ts";
+import { FileValidationError, validateFile } from "./extractors/validation.ts";
+import { enqueueProcessingJob } from "./jobs.ts";
+import { contentHash, findNoteByHash } from "./content-hash.ts";
+
+// Same limits as a direct upload (see FileUpload)
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+const MAX_ARCHIVE_FILES = 100;
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  tex: "application/x-tex",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  heic: "image/heic",
+  heif: "image/heif",
+};
+
+export interface ExpandedNote {
+  noteId: string;
+  fileName: string;
+}
+
+export interface SkippedEntry {
+  fileName: string;
+  reason: string;
+}
+
+export interface ArchiveExpansion {
+  notes: ExpandedNote[];
+  skipped: SkippedEntry[];
+}
+
+// Returns the archive if it should be expanded rather than processed as
+// one document. Throws FileValidationError for a file that is not a
+// usable ZIP (see validateFile).
+export function openExpandableArchive(bytes: Uint8Array): ZipArchive | null {
+  validateFile(bytes, "zip");
+  const archive = ZipArchive.open(bytes);
+  return isLatexProject(archive) ? null : archive;
+}
+
+// Skipped files named in the summary; the rest are counted
+const MAX_SKIPPED_LISTED = 5;
+
+// A line for the upload dialog, e.g. "Unpacked 12 files; skipped notes.exe
+// (Unsupported file type)"
+export function describeExpansion({ notes, skipped }: ArchiveExpansion): string {
+  const summary = `Unpacked ${notes.length} ${notes.length === 1 ? "file" : "files"}`;
+  if (skipped.length === 0) return summary;
+  const listed = skipped.slice(0, MAX_SKIPPED_LISTED).map((entry) => `${entry.fileName} (${entry.reason})`);
+  if (skipped.length > MAX_SKIPPED_LISTED) listed.push(`${skipped.length - MAX_SKIPPED_LISTED} more`);
+  return `${summary}; skipped ${listed.join(", ")}`;
+}
+
+// Folders, macOS resource forks and hidden files are not documents
+function isJunkEntry(name: string): boolean {
+  const baseName = name.split("/").pop() ?? "";
+  return name.endsWith("/") || name.startsWith("__MACOSX/") || baseName.startsWith(".");
+}
+
+export async function expandArchive(
+  supabase: SupabaseClient,
+  userId: string,
+  archive: ZipArchive,
+  onProgress?: (done: number, total: number) => Promise<void>,
+): Promise<ArchiveExpansion> {
+  const notes: ExpandedNote[] = [];
+  const skipped: SkippedEntry[] = [];
+  const entries = [...archive.entries.values()].filter((entry) => !isJunkEntry(entry.name));
+
+  for (const [index, entry] of entries.entries()) {
+    await onProgress?.(index, entries.length);
+    const fileName = entry.name.split("/").pop()!;
+    const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+
+    if (!(extension in CONTENT_TYPES)) {
+      skipped.push({ fileName, reason: "Unsupported file type" });
+      continue;
+    }
+    if (entry.encrypted) {
+      skipped.push({ fileName, reason: "File is password protected" });
+      continue;
+    }
+    if (entry.size > MAX_FILE_SIZE) {
+      skipped.push({ fileName, reason: "File size exceeds 50MB limit" });
+      continue;
+    }
+    if (notes.length >= MAX_ARCHIVE_FILES) {
+      skipped.push({ fileName, reason: `Only the first ${MAX_ARCHIVE_FILES} files of an archive are imported` });
+      continue;
+    }
+
+    try {
+      const bytes = await archive.read(entry.name);
+      if (!bytes) throw new Error("Entry could not be read");
+      // Entries are checked like direct uploads
+      validateFile(bytes, extension);
+
+      // A document the user already has is not processed again
+      const hash = await contentHash(bytes);
+      const existing = await findNoteByHash(supabase, userId, hash);
+      if (existing) {
+        skipped.push({ fileName, reason: `Already in your notes as ${existing.file_name}` });
+        continue;
+      }
+
+      const contentType = CONTENT_TYPES[extension];
+      const filePath = `${userId}/${Date.now()}-${crypto.randomUUID().slice(0, 8)}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from("notes")
+        .upload(filePath, bytes, { contentType, upsert: false });
+      if (uploadError) throw uploadError;
+
+      const { data: note, error: insertError } = await supabase.from("notes").insert({
+        user_id: userId,
+        file_name: fileName,
+        file_type: contentType,
+        file_size: bytes.length,
+        file_url: filePath,
+        content_hash: hash,
+        status: "processing",
+        processing_stage: "queued",
+      }).select("id").single();
+      if (insertError) throw insertError;
+
+      await enqueueProcessingJob(supabase, note.id, userId);
+      notes.push({ noteId: note.id, fileName });
+    } catch (error) {
+      if (!(error instanceof FileValidationError)) console.error("Failed to import archive entry", entry.name, error);
+      skipped.push({ fileName, reason: error instanceof Error ? error.message : "Import failed" });
+    }
+  }
+
+  console.log("Expanded archive into", notes.length, "notes, skipped", skipped.length);
+  return { notes, skipped };
+}
@@ -0,0 +1,57 @@
+// Caller identity for edge functions that run with the service-role key.
+// The gateway only checks that a JWT is present and signed (verify_jwt);
+// the user id always comes from the token, never from the request body.
+
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Carries the HTTP status the function should answer with.
+export class HttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export async function requireUser(req: Request, supabase: SupabaseClient): Promise<User> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) throw new HttpError("Missing authorization header", 401);
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) throw new HttpError("Invalid or expired session", 401);
+  return data.user;
+}
+
+// Uploads are stored under "<user id>/<object name>"; the storage policies
+// rely on the same layout.
+export function isOwnStoragePath(userId: string, path: string): boolean {
+  const [folder, ...rest] = path.split("/");
+  return folder === userId && rest.length > 0 && !rest.includes("..");
+}
+
+export interface OwnedNote {
+  id: string;
+  file_url: string;
+}
+
+// Loads a note of the caller's, refusing notes of other users (404, so
+// their existence is not revealed), notes in the trash (409, until they are
+// restored) and notes whose file lies outside the caller's storage folder.
+export async function requireOwnedNote(supabase: SupabaseClient, userId: string, noteId: unknown): Promise<OwnedNote> {
+  if (typeof noteId !== "string" || !noteId) throw new HttpError("Missing noteId", 400);
+
+  const { data: note, error } = await supabase
+    .from("notes")
+    .select("id, file_url, deleted_at")
+    .eq("id", noteId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!note) throw new HttpError("Note not found", 404);
+  if (note.deleted_at) throw new HttpError("This note is in the trash. Restore it to process it again.", 409);
+  if (!isOwnStoragePath(userId, note.file_url)) {
+    console.error("Storage path rejected for user", userId, "-", note.file_url);
+    throw new HttpError("File does not belong to this user", 403);
+  }
+  return { id: note.id, file_url: note.file_url };
+}
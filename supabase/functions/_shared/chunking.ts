@@ -0,0 +1,223 @@
+// Splits an extracted document into bounded pieces along its natural
+// boundaries: whole pages first, then headings, then paragraphs. Each
+// piece remembers the pages it spans so later stages can cite them.
+
+import { ExtractedDocument, formatPageMarker } from "./extractors/index.ts";
+
+export interface DocumentChunk {
+  pageStart: number;
+  pageEnd: number;
+  text: string;
+}
+
+const HEADING = /^(#{1,6}\s|\*\*[^*\n]+\*\*\s*$)/;
+
+// Breaks a single oversized page into blocks no longer than maxChars,
+// preferring to cut before a heading, then at a blank line.
+function splitPage(text: string, maxChars: number): string[] {
+  const sections: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    if (HEADING.test(line) && current.trim()) {
+      sections.push(current);
+      current = "";
+    }
+    current += (current ? "\n" : "") + line;
+  }
+  if (current.trim()) sections.push(current);
+
+  const blocks: string[] = [];
+  for (const section of sections) {
+    if (section.length <= maxChars) {
+      blocks.push(section);
+      continue;
+    }
+    let block = "";
+    for (const paragraph of section.split(/\n{2,}/)) {
+      if (block && block.length + paragraph.length + 2 > maxChars) {
+        blocks.push(block);
+        block = "";
+      }
+      // A single paragraph longer than the limit is cut at a line break,
+      // then between words, and only as a last resort mid-word.
+      let rest = paragraph;
+      while (rest.length > maxChars) {
+        const lineBreak = rest.lastIndexOf("\n", maxChars);
+        const space = rest.lastIndexOf(" ", maxChars);
+        const at = lineBreak > maxChars / 2 ? lineBreak : space > maxChars / 2 ? space : maxChars;
+        blocks.push(rest.slice(0, at));
+        rest = rest.slice(at).replace(/^\s/, "");
+      }
+      block += (block ? "\n\n" : "") + rest;
+    }
+    if (block.trim()) blocks.push(block);
+  }
+
+  // Re-pack the small pieces so chunks stay close to the limit.
+  const packed: string[] = [];
+  for (const block of blocks) {
+    const last = packed[packed.length - 1];
+    if (last !== undefined && last.length + block.length + 2 <= maxChars) {
+      packed[packed.length - 1] = `${last}\n\n${block}`;
+    } else {
+      packed.push(block);
+    }
+  }
+  return packed;
+}
+
+export function splitIntoChunks(document: ExtractedDocument, maxChars: number): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const paginated = document.pages.length > 1;
+  let current: DocumentChunk | null = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) chunks.push(current);
+    current = null;
+  };
+
+  for (const page of document.pages) {
+    const text = page.text.trim();
+    if (!text) continue;
+
+    // Page markers are kept inside multi-page chunks so the model (and
+    // readers of the chunk) can still tell where each page starts.
+    const pageText = paginated ? `${formatPageMarker(page.number)}\n${text}` : text;
+
+    if (pageText.length > maxChars) {
+      flush();
+      for (const piece of splitPage(text, maxChars)) {
+        chunks.push({
+          pageStart: page.number,
+          pageEnd: page.number,
+          text: paginated ? `${formatPageMarker(page.number)}\n${piece}` : piece,
+        });
+      }
+      continue;
+    }
+
+    if (current && current.text.length + pageText.length + 2 > maxChars) flush();
+    if (current) {
+      current.text += `\n\n${pageText}`;
+      current.pageEnd = page.number;
+    } else {
+      current = { pageStart: page.number, pageEnd: page.number, text: pageText };
+    }
+  }
+  flush();
+  return chunks;
+}
+
+export interface NoteChunk extends DocumentChunk {
+  ordinal: number;
+  headingPath: string[];
+  tokenCount: number;
+}
+
+// Rough count for budgeting prompts; about four characters per token for
+// English prose and LaTeX alike.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Splits a document into the small passages stored in note_chunks. A new
+// passage starts at every heading so each one has a single heading path
+// (e.g. ["Integration", "By parts"]); passages may run across pages.
+export function buildNoteChunks(document: ExtractedDocument, maxChars = 2000): NoteChunk[] {
+  const chunks: NoteChunk[] = [];
+  const path: string[] = [];
+  let current: NoteChunk | null = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) {
+      current.text = current.text.trim();
+      current.tokenCount = estimateTokens(current.text);
+      chunks.push(current);
+    }
+    current = null;
+  };
+
+  for (const page of document.pages) {
+    const blocks = page.text
+      .split(/\n{2,}/)
+      .flatMap((block) => (block.length > maxChars ? splitPage(block, maxChars) : [block]))
+      .filter((block) => block.trim());
+
+    for (const block of blocks) {
+      const heading = /^(#{1,6})\s+(.+)$/.exec(block.split("\n", 1)[0].trim());
+      if (heading) {
+        flush();
+        path.length = heading[1].length - 1;
+        path[heading[1].length - 1] = heading[2].replace(/[*_`]/g, "").trim();
+      }
+
+      if (current && current.text.length + block.length + 2 > maxChars) flush();
+      if (current) {
+        current.text += `\n\n${block}`;
+        current.pageEnd = page.number;
+      } else {
+        current = {
+          ordinal: chunks.length,
+          pageStart: page.number,
+          pageEnd: page.number,
+          headingPath: path.filter(Boolean),
+          text: block,
+          tokenCount: 0,
+        };
+      }
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// A heading of the structured note, with the pages of the part it was
+// written for (see structureDocument).
+export interface OutlineHeading {
+  path: string[];
+  pageStart: number;
+  pageEnd: number;
+}
+
+const normalizeForMatch = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Gives passages without headings of their own (PDF and slide text has
+// none) the heading path of the structured note. Passages and headings
+// are both in document order, so the text of an upcoming heading of the
+// passage's pages marks where that heading starts: a passage takes the
+// heading in effect at its start, and the last heading found in it
+// carries on to the next passage. A passage whose pages lie past the
+// current heading's part falls under the first heading of its own part.
+export function applyOutline(chunks: NoteChunk[], outline: OutlineHeading[]): NoteChunk[] {
+  if (outline.length === 0) return chunks;
+  let current = -1;
+
+  return chunks.map((chunk) => {
+    if (chunk.headingPath.length > 0) return chunk;
+    const text = ` ${normalizeForMatch(chunk.text)} `;
+
+    let atStart = -1;
+    let last = -1;
+    let position = 0;
+    for (let next = current + 1; next < outline.length && outline[next].pageStart <= chunk.pageEnd; next++) {
+      const title = normalizeForMatch(outline[next].path[outline[next].path.length - 1]);
+      const found = title.length >= 4 ? text.indexOf(` ${title} `, position) : -1;
+      if (found < 0) continue;
+      if (found === 0) atStart = next;
+      last = next;
+      position = found;
+    }
+
+    if (atStart >= 0) {
+      current = atStart;
+    } else if (current < 0 || outline[current].pageEnd < chunk.pageStart) {
+      const first = outline.findIndex(
+        (heading, index) => index > current && heading.pageEnd >= chunk.pageStart && heading.pageStart <= chunk.pageEnd,
+      );
+      if (first >= 0) current = first;
+    }
+    const headingPath = current >= 0 ? outline[current].path : [];
+    if (last > current) current = last;
+    return headingPath.length > 0 ? { ...chunk, headingPath } : chunk;
+  });
+}
@@ -0,0 +1,35 @@
+// Recognises files a user has uploaded before by their SHA-256, stored on
+// the note as content_hash.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export async function contentHash(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export interface ExistingNote {
+  id: string;
+  file_name: string;
+}
+
+// The user's note for the same file, if one is ready or still processing.
+// A failed note does not count: uploading again is how a user retries it.
+export async function findNoteByHash(
+  supabase: SupabaseClient,
+  userId: string,
+  hash: string,
+): Promise<ExistingNote | null> {
+  const { data, error } = await supabase
+    .from("notes")
+    .select("id, file_name")
+    .eq("user_id", userId)
+    .eq("content_hash", hash)
+    .is("deleted_at", null)
+    .in("status", ["ready", "processing"])
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
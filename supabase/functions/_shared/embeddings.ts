@@ -0,0 +1,60 @@
+// Text embeddings for note_chunks.embedding and solver queries, from any
+// OpenAI-compatible /embeddings endpoint. Enabled by EMBEDDINGS_API_KEY;
+// without it chunks are stored unembedded and retrieval falls back to
+// lexical ranking.
+//
+//   EMBEDDINGS_API_KEY  bearer token for the endpoint
+//   EMBEDDINGS_API_URL  defaults to https://api.openai.com/v1/embeddings
+//   EMBEDDINGS_MODEL    defaults to text-embedding-3-small
+//
+// The column is vector(768), so the model must produce (or be asked for)
+// 768 dimensions.
+
+export const EMBEDDING_DIMENSIONS = 768;
+
+const BATCH_SIZE = 64;
+
+export function embeddingsEnabled(): boolean {
+  return !!Deno.env.get("EMBEDDINGS_API_KEY");
+}
+
+// pgvector accepts the JSON array notation as its text input format.
+export function toVectorLiteral(embedding: number[]): string {
+  return JSON.stringify(embedding);
+}
+
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const apiKey = Deno.env.get("EMBEDDINGS_API_KEY");
+  if (!apiKey) throw new Error("EMBEDDINGS_API_KEY is not configured");
+  const url = Deno.env.get("EMBEDDINGS_API_URL") || "https://api.openai.com/v1/embeddings";
+  const model = Deno.env.get("EMBEDDINGS_MODEL") || "text-embedding-3-small";
+
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        input: texts.slice(i, i + BATCH_SIZE),
+        dimensions: EMBEDDING_DIMENSIONS,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embeddings error: ${response.status} ${await response.text()}`);
+    }
+    const data = await response.json();
+    const batch = (data.data as Array<{ index: number; embedding: number[] }>)
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+    if (batch.some((embedding) => embedding.length !== EMBEDDING_DIMENSIONS)) {
+      throw new Error(`Embeddings model must return ${EMBEDDING_DIMENSIONS} dimensions`);
+    }
+    embeddings.push(...batch);
+  }
+  return embeddings;
+}
@@ -0,0 +1,132 @@
+// Reader for OLE2 / Compound File Binary containers, the storage format
+// behind legacy .doc and .ppt files. Streams are located by name anywhere
+// in the directory tree, which is all the Office readers need.
+
+const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECT = 0xffffffff;
+
+interface DirectoryEntry {
+  name: string;
+  type: number;
+  startSector: number;
+  size: number;
+}
+
+export function isCompoundFile(bytes: Uint8Array): boolean {
+  return bytes.length >= 512 && SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+export class CompoundFile {
+  private view: DataView;
+  private sectorSize = 512;
+  private miniSectorSize = 64;
+  private miniStreamCutoff = 4096;
+  private fat: number[] = [];
+  private miniFat: number[] = [];
+  private entries: DirectoryEntry[] = [];
+  private miniStream = new Uint8Array(0);
+
+  private constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  static open(bytes: Uint8Array): CompoundFile {
+    if (!isCompoundFile(bytes)) throw new Error("Not an OLE2 compound document");
+    const file = new CompoundFile(bytes);
+    file.load();
+    return file;
+  }
+
+  names(): string[] {
+    return this.entries.filter((entry) => entry.type === 2).map((entry) => entry.name);
+  }
+
+  stream(name: string): Uint8Array | undefined {
+    const entry = this.entries.find((item) => item.type === 2 && item.name === name);
+    if (!entry) return undefined;
+    if (entry.size < this.miniStreamCutoff) {
+      return this.readChain(entry.startSector, this.miniFat, this.miniSectorSize, (sector) =>
+        this.miniStream.subarray(sector * this.miniSectorSize, (sector + 1) * this.miniSectorSize),
+      ).subarray(0, entry.size);
+    }
+    return this.readChain(entry.startSector, this.fat, this.sectorSize, (sector) => this.sector(sector)).subarray(0, entry.size);
+  }
+
+  private u32(offset: number): number {
+    return offset + 4 <= this.bytes.length ? this.view.getUint32(offset, true) : FREE_SECT;
+  }
+
+  private sector(index: number): Uint8Array {
+    const start = (index + 1) * this.sectorSize;
+    return this.bytes.subarray(start, start + this.sectorSize);
+  }
+
+  private load() {
+    this.sectorSize = 1 << this.view.getUint16(0x1e, true);
+    this.miniSectorSize = 1 << this.view.getUint16(0x20, true);
+    this.miniStreamCutoff = this.u32(0x38);
+
+    // The DIFAT lists which sectors hold the FAT: 109 entries in the
+    // header, then a chain of DIFAT sectors for larger files.
+    const fatSectors: number[] = [];
+    for (let i = 0; i < 109; i++) {
+      const sector = this.u32(0x4c + i * 4);
+      if (sector !== FREE_SECT) fatSectors.push(sector);
+    }
+    let difat = this.u32(0x44);
+    const perSector = this.sectorSize / 4;
+    for (let guard = 0; difat !== END_OF_CHAIN && difat !== FREE_SECT && guard < 100000; guard++) {
+      const base = (difat + 1) * this.sectorSize;
+      for (let i = 0; i < perSector - 1; i++) {
+        const sector = this.u32(base + i * 4);
+        if (sector !== FREE_SECT) fatSectors.push(sector);
+      }
+      difat = this.u32(base + (perSector - 1) * 4);
+    }
+
+    for (const sector of fatSectors) {
+      const base = (sector + 1) * this.sectorSize;
+      for (let i = 0; i < perSector; i++) this.fat.push(this.u32(base + i * 4));
+    }
+
+    const miniFatData = this.readChain(this.u32(0x3c), this.fat, this.sectorSize, (sector) => this.sector(sector));
+    const miniView = new DataView(miniFatData.buffer, miniFatData.byteOffset, miniFatData.byteLength);
+    for (let i = 0; i + 4 <= miniFatData.length; i += 4) this.miniFat.push(miniView.getUint32(i, true));
+
+    const directory = this.readChain(this.u32(0x30), this.fat, this.sectorSize, (sector) => this.sector(sector));
+    const dirView = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+    for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+      const nameLength = dirView.getUint16(offset + 0x40, true);
+      let name = "";
+      for (let i = 0; i + 2 < nameLength && i < 64; i += 2) {
+        name += String.fromCharCode(dirView.getUint16(offset + i, true));
+      }
+      this.entries.push({
+        name,
+        type: directory[offset + 0x42],
+        startSector: dirView.getUint32(offset + 0x74, true),
+        size: dirView.getUint32(offset + 0x78, true),
+      });
+    }
+
+    const root = this.entries.find((entry) => entry.type === 5);
+    if (root) {
+      this.miniStream = this.readChain(root.startSector, this.fat, this.sectorSize, (sector) => this.sector(sector))
+        .subarray(0, root.size);
+    }
+  }
+
+  private readChain(start: number, table: number[], size: number, read: (sector: number) => Uint8Array): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    const seen = new Set<number>();
+    for (let sector = start; sector < table.length && sector !== END_OF_CHAIN && !seen.has(sector); sector = table[sector]) {
+      seen.add(sector);
+      chunks.push(read(sector));
+    }
+
+    const result = new Uint8Array(chunks.length * size);
+    chunks.forEach((chunk, index) => result.set(chunk, index * size));
+    return result;
+  }
+}
@@ -0,0 +1,16 @@
+// Photos and scans of notes (PNG, JPEG, HEIC): the whole image is one page,
+// read by OCR.
+
+import { ExtractedDocument } from "./types.ts";
+import { decodeImage } from "./raster.ts";
+import { recognizeText } from "./ocr.ts";
+import { FileValidationError, sniffFormat } from "./validation.ts";
+
+export async function extractImage(bytes: Uint8Array): Promise<ExtractedDocument> {
+  // validateFile has matched the contents to the extension already
+  const format = sniffFormat(bytes) as "png" | "jpeg" | "heic";
+  const image = await decodeImage(bytes, format);
+  const text = await recognizeText(image, { detectOrientation: true });
+  if (!text) throw new FileValidationError("No text could be recognised in the image.");
+  return { pages: [{ number: 1, text }], recognized: true };
+}
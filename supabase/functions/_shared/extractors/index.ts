@@ -0,0 +1,67 @@
+import { ExtractDocumentOptions, ExtractedDocument } from "./types.ts";
+import { extractPdf } from "./pdf.ts";
+import { extractImage } from "./image.ts";
+import { extractDocx, extractPptx } from "./ooxml.ts";
+import { extractDoc, extractPpt } from "./legacy-office.ts";
+import { isCompoundFile } from "./cfb.ts";
+import { extractLatex, extractLatexProject, isLatexProject } from "./latex.ts";
+import { extractMarkdown } from "./markdown.ts";
+import { ZipArchive } from "./zip.ts";
+import { validateFile } from "./validation.ts";
+
+export * from "./types.ts";
+export { FileValidationError } from "./validation.ts";
+
+// Picks an extractor from the file extension of the stored object, once
+// the file has been checked to really be of that type.
+export async function extractDocument(
+  bytes: Uint8Array,
+  extension: string | undefined,
+  options: ExtractDocumentOptions = {},
+): Promise<ExtractedDocument> {
+  validateFile(bytes, extension);
+
+  switch (extension) {
+    case "pdf":
+      return await extractPdf(bytes, options);
+    case "docx":
+      return await extractDocx(bytes);
+    case "pptx":
+      return await extractPptx(bytes);
+    case "doc":
+      // Some "doc" files are really RTF or HTML saved with the old extension.
+      if (isCompoundFile(bytes)) return extractDoc(bytes);
+      break;
+    case "ppt":
+      if (isCompoundFile(bytes)) return extractPpt(bytes);
+      break;
+    case "tex":
+      return extractLatex(bytes);
+    case "md":
+    case "markdown":
+      return extractMarkdown(bytes);
+    case "png":
+    case "jpg":
+    case "jpeg":
+    case "heic":
+    case "heif":
+      options.onProgress?.("Reading the image");
+      return await extractImage(bytes);
+    case "zip": {
+      const archive = ZipArchive.open(bytes);
+      if (isLatexProject(archive)) return await extractLatexProject(archive);
+      throw new Error("ZIP uploads must contain a LaTeX project (.tex files)");
+    }
+  }
+  return { pages: [{ number: 1, text: scrapeText(bytes) }] };
+}
+
+// Last resort for formats without a dedicated reader: keep printable ASCII.
+function scrapeText(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8", { fatal: false })
+    .decode(bytes)
+    .replace(/<[^>]*>/g, " ")
+    .replace(/[^\x20-\x7E\n]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,72 @@
+// Thin wrapper around the runtime's DecompressionStream.
+//
+// Real-world PDFs and ZIPs regularly contain streams with trailing garbage
+// or a truncated final block. The runtime rejects those outright, so we
+// keep whatever was decoded before the error and only fail when nothing
+// came out at all.
+//
+// Output is capped so a small stream cannot expand into gigabytes (a
+// "zip bomb"); decoding stops as soon as the cap is passed.
+
+export type InflateFormat = "deflate" | "deflate-raw";
+
+// Cap for a single stream when the caller knows no better bound
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+export class DecompressionLimitError extends Error {
+  constructor(readonly limit: number) {
+    super(`Compressed data expands to more than ${limit} bytes`);
+    this.name = "DecompressionLimitError";
+  }
+}
+
+export async function inflate(
+  data: Uint8Array,
+  format: InflateFormat = "deflate",
+  maxBytes = MAX_INFLATED_BYTES,
+): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > maxBytes) break;
+      chunks.push(value);
+    }
+  } catch (error) {
+    if (total === 0) throw error;
+  }
+
+  if (total > maxBytes) {
+    await reader.cancel();
+    throw new DecompressionLimitError(maxBytes);
+  }
+  return concatBytes(chunks, total);
+}
+
+// zlib streams occasionally carry a bogus header; retry as raw deflate
+// past the two header bytes before giving up.
+export async function inflateLenient(data: Uint8Array, maxBytes = MAX_INFLATED_BYTES): Promise<Uint8Array> {
+  try {
+    return await inflate(data, "deflate", maxBytes);
+  } catch (error) {
+    if (error instanceof DecompressionLimitError) throw error;
+    return await inflate(data.subarray(2), "deflate-raw", maxBytes);
+  }
+}
+
+export function concatBytes(chunks: Uint8Array[], total?: number): Uint8Array {
+  const length = total ?? chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,700 @@
+// LaTeX lecture sources to the Markdown + KaTeX dialect MathRenderer shows.
+//
+// Math is passed through untouched (apart from labels and user macros), so
+// formulas keep full fidelity. The text layer is mapped onto Markdown:
+// sectioning commands become headings, theorem-like environments become
+// bold-labelled paragraphs and lists become Markdown lists. Zipped
+// projects are supported by resolving \input and \include against the
+// archive.
+
+import { ExtractedDocument } from "./types.ts";
+import { ZipArchive, resolveZipPath } from "./zip.ts";
+
+const MAX_INPUT_DEPTH = 8;
+
+const SECTIONS: Record<string, string> = {
+  part: "#",
+  chapter: "#",
+  section: "##",
+  subsection: "###",
+  subsubsection: "####",
+};
+
+// Default labels for theorem-like environments; \newtheorem declarations
+// in the source add to or override these.
+const THEOREM_LABELS: Record<string, string> = {
+  theorem: "Theorem", thm: "Theorem", lemma: "Lemma", lem: "Lemma", proposition: "Proposition",
+  prop: "Proposition", corollary: "Corollary", cor: "Corollary", definition: "Definition",
+  defn: "Definition", def: "Definition", example: "Example", ex: "Example", exercise: "Exercise",
+  remark: "Remark", rem: "Remark", note: "Note", claim: "Claim", conjecture: "Conjecture",
+  problem: "Problem", solution: "Solution", question: "Question", answer: "Answer",
+};
+
+// Display environments KaTeX cannot take at the top level are mapped to
+// their inner-environment equivalents.
+const DISPLAY_MATH: Record<string, string | null> = {
+  equation: null, "equation*": null, displaymath: null, math: null,
+  align: "aligned", "align*": "aligned", eqnarray: "aligned", "eqnarray*": "aligned",
+  flalign: "aligned", "flalign*": "aligned", alignat: "alignedat", "alignat*": "alignedat",
+  gather: "gathered", "gather*": "gathered", multline: null, "multline*": null,
+};
+
+const DROPPED_ENVIRONMENTS = new Set(["tikzpicture", "picture", "thebibliography", "comment", "titlepage"]);
+
+// Commands whose arguments are dropped along with the command itself.
+// \title, \author and \date are metadata wherever they appear: the title
+// is collected up front (see collectDefinitions) and only output once.
+const DROPPED_COMMANDS = new Set([
+  "label", "index", "cite", "nocite", "vspace", "vspace*", "hspace", "hspace*", "includegraphics",
+  "usepackage", "documentclass", "bibliography", "bibliographystyle", "pagestyle", "thispagestyle",
+  "setlength", "addtolength", "setcounter", "addcontentsline", "graphicspath", "geometry",
+  "newtheorem", "theoremstyle", "hypersetup", "title", "author", "date", "input", "include", "subfile",
+]);
+
+const SYMBOL_COMMANDS: Record<string, string> = {
+  "%": "%", "&": "&", "_": "_", "#": "#", "{": "{", "}": "}", "$": "\\$", " ": " ", ",": " ",
+  "\\": "\n", ldots: "…", dots: "…", LaTeX: "LaTeX", TeX: "TeX", textendash: "–", textemdash: "—",
+  ss: "ß", copyright: "©", S: "§", P: "¶", dag: "†", ddag: "‡", textbackslash: "\\",
+  quad: " ", qquad: " ", newline: "\n", linebreak: "\n", par: "\n\n", item: "",
+};
+
+interface Macro {
+  args: number;
+  defaultArg?: string;
+  body: string;
+}
+
+interface LatexContext {
+  macros: Map<string, Macro>;
+  theorems: Record<string, string>;
+  title?: string;
+  listDepth: number;
+}
+
+// ---------------------------------------------------------------------------
+// Low-level scanning helpers
+// ---------------------------------------------------------------------------
+
+function stripComments(source: string): string {
+  return source
+    .split("\n")
+    .map((line) => {
+      for (let i = 0; i < line.length; i++) {
+        if (line[i] === "\\") {
+          i++;
+        } else if (line[i] === "%") {
+          return line.slice(0, i);
+        }
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+// Reads a balanced {...} group starting at `pos` (after optional spaces).
+// Returns the contents and the position after the closing brace.
+function readGroup(src: string, pos: number): { value: string; end: number } | null {
+  let i = pos;
+  while (src[i] === " " || src[i] === "\n" || src[i] === "\t") i++;
+  if (src[i] !== "{") return null;
+  let depth = 0;
+  for (let j = i; j < src.length; j++) {
+    if (src[j] === "\\") {
+      j++;
+    } else if (src[j] === "{") {
+      depth++;
+    } else if (src[j] === "}" && --depth === 0) {
+      return { value: src.slice(i + 1, j), end: j + 1 };
+    }
+  }
+  return { value: src.slice(i + 1), end: src.length };
+}
+
+function readOptional(src: string, pos: number): { value: string; end: number } | null {
+  let i = pos;
+  while (src[i] === " ") i++;
+  if (src[i] !== "[") return null;
+  let depth = 0;
+  for (let j = i; j < src.length; j++) {
+    if (src[j] === "{") depth++;
+    else if (src[j] === "}") depth--;
+    else if (src[j] === "]" && depth === 0) return { value: src.slice(i + 1, j), end: j + 1 };
+  }
+  return null;
+}
+
+function readCommandName(src: string, pos: number): { name: string; end: number } {
+  // pos points just after the backslash.
+  const match = /^([A-Za-z@]+\*?|.)/.exec(src.slice(pos, pos + 64));
+  const name = match ? match[1] : "";
+  return { name, end: pos + name.length };
+}
+
+// Finds the \end{name} matching a \begin{name} whose body starts at `pos`.
+function findEnvironmentEnd(src: string, name: string, pos: number): { body: string; end: number } {
+  const begin = `\\begin{${name}}`;
+  const endTag = `\\end{${name}}`;
+  let depth = 1;
+  let i = pos;
+  while (i < src.length) {
+    const nextBegin = src.indexOf(begin, i);
+    const nextEnd = src.indexOf(endTag, i);
+    if (nextEnd < 0) break;
+    if (nextBegin >= 0 && nextBegin < nextEnd) {
+      depth++;
+      i = nextBegin + begin.length;
+    } else {
+      if (--depth === 0) return { body: src.slice(pos, nextEnd), end: nextEnd + endTag.length };
+      i = nextEnd + endTag.length;
+    }
+  }
+  return { body: src.slice(pos), end: src.length };
+}
+
+// ---------------------------------------------------------------------------
+// Preamble: macros, theorem declarations and title
+// ---------------------------------------------------------------------------
+
+function collectDefinitions(src: string, ctx: LatexContext) {
+  const pattern = /\\(newcommand|renewcommand|providecommand|DeclareMathOperator|newtheorem|title)\*?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(src))) {
+    let pos = match.index + match[0].length;
+    switch (match[1]) {
+      case "title": {
+        const group = readGroup(src, pos);
+        if (group && !ctx.title) ctx.title = group.value.replace(/\\\\/g, " ").trim();
+        break;
+      }
+      case "newtheorem": {
+        const name = readGroup(src, pos);
+        if (!name) break;
+        pos = readOptional(src, name.end)?.end ?? name.end;
+        const label = readGroup(src, pos);
+        if (label) ctx.theorems[name.value.trim()] = label.value.trim();
+        break;
+      }
+      case "DeclareMathOperator": {
+        const name = readGroup(src, pos);
+        const body = name && readGroup(src, name.end);
+        if (name && body) {
+          ctx.macros.set(name.value.trim().replace(/^\\/, ""), { args: 0, body: `\\operatorname{${body.value}}` });
+        }
+        break;
+      }
+      default: {
+        // \newcommand{\name}[args][default]{body} or \newcommand\name{body}
+        let name: string | undefined;
+        const group = readGroup(src, pos);
+        if (group) {
+          name = group.value.trim();
+          pos = group.end;
+        } else {
+          const bare = /^\s*(\\[A-Za-z@]+)/.exec(src.slice(pos));
+          if (bare) {
+            name = bare[1];
+            pos += bare[0].length;
+          }
+        }
+        if (!name) break;
+        const args = readOptional(src, pos);
+        if (args) pos = args.end;
+        const defaultArg = readOptional(src, pos);
+        if (defaultArg) pos = defaultArg.end;
+        const body = readGroup(src, pos);
+        if (body) {
+          ctx.macros.set(name.replace(/^\\/, ""), {
+            args: args ? parseInt(args.value, 10) || 0 : 0,
+            defaultArg: defaultArg?.value,
+            body: body.value,
+          });
+          pattern.lastIndex = body.end;
+        }
+      }
+    }
+  }
+}
+
+// Removes the definitions themselves so they do not leak into the body.
+function stripDefinitions(src: string): string {
+  const pattern = /\\(newcommand|renewcommand|providecommand|DeclareMathOperator)\*?/g;
+  let result = "";
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(src))) {
+    let pos = match.index + match[0].length;
+    const group = readGroup(src, pos);
+    if (group) {
+      pos = group.end;
+    } else {
+      const bare = /^\s*\\[A-Za-z@]+/.exec(src.slice(pos));
+      if (bare) pos += bare[0].length;
+    }
+    pos = readOptional(src, pos)?.end ?? pos;
+    pos = readOptional(src, pos)?.end ?? pos;
+    const body = readGroup(src, pos);
+    if (!body) continue;
+    result += src.slice(last, match.index);
+    last = body.end;
+    pattern.lastIndex = body.end;
+  }
+  return result + src.slice(last);
+}
+
+function expandMacros(src: string, macros: Map<string, Macro>, depth = 0): string {
+  if (macros.size === 0 || depth > 10) return src;
+  let changed = false;
+
+  const result = src.replace(/\\([A-Za-z@]+)/g, (match: string, name: string) => {
+    const macro = macros.get(name);
+    if (!macro) return match;
+    if (macro.args === 0) {
+      changed = true;
+      return macro.body;
+    }
+    // Macros with arguments are expanded in a second pass below.
+    return `\uE000${name}\uE000`;
+  });
+
+  let expanded = "";
+  let pos = 0;
+  const placeholder = /\uE000([A-Za-z@]+)\uE000/g;
+  let match: RegExpExecArray | null;
+  while ((match = placeholder.exec(result))) {
+    const macro = macros.get(match[1])!;
+    let cursor = match.index + match[0].length;
+    const args: string[] = [];
+    for (let i = 0; i < macro.args; i++) {
+      if (i === 0 && macro.defaultArg !== undefined) {
+        const optional = readOptional(result, cursor);
+        args.push(optional ? optional.value : macro.defaultArg);
+        if (optional) cursor = optional.end;
+        continue;
+      }
+      const group = readGroup(result, cursor);
+      if (group) {
+        args.push(group.value);
+        cursor = group.end;
+      } else {
+        // Single-token argument, e.g. \vec x
+        const token = /^\s*(\\[A-Za-z]+|\S)/.exec(result.slice(cursor));
+        args.push(token ? token[1] : "");
+        cursor += token ? token[0].length : 0;
+      }
+    }
+    expanded += result.slice(pos, match.index) + macro.body.replace(/#(\d)/g, (_, n: string) => args[parseInt(n, 10) - 1] ?? "");
+    pos = cursor;
+    placeholder.lastIndex = cursor;
+    changed = true;
+  }
+  expanded += result.slice(pos);
+
+  return changed ? expandMacros(expanded, macros, depth + 1) : expanded;
+}
+
+function cleanMath(math: string): string {
+  return math
+    .replace(/\\label\s*\{[^}]*\}/g, "")
+    .replace(/\\(nonumber|notag)\b/g, "")
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Body conversion
+// ---------------------------------------------------------------------------
+
+// Keeps leading spaces, which carry the indentation of nested lists.
+function block(text: string): string {
+  return `\n\n${text.replace(/^\s*\n/, "").trimEnd()}\n\n`;
+}
+
+function convertTabular(body: string, ctx: LatexContext): string {
+  const rows = body
+    .replace(/\\(hline|toprule|midrule|bottomrule|cline\{[^}]*\})/g, "")
+    .split(/\\\\/)
+    .map((row) => row.trim())
+    .filter(Boolean)
+    .map((row) => row.split(/(?<!\\)&/).map((cell) => convertInline(cell, ctx).replace(/\|/g, "\\|").trim()));
+  if (rows.length === 0) return "";
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => row[i] ?? "").join(" | ")} |`;
+  return block([line(rows[0]), `|${" --- |".repeat(width)}`, ...rows.slice(1).map(line)].join("\n"));
+}
+
+// Splits a list body on its own \item commands, leaving items of nested
+// lists inside their environment.
+function splitItems(body: string): string[] {
+  const items: string[] = [];
+  const pattern = /\\(begin|end)\s*\{[^}]*\}|\\item\b/g;
+  let depth = 0;
+  let start = -1;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(body))) {
+    if (match[1] === "begin") depth++;
+    else if (match[1] === "end") depth--;
+    else if (depth === 0) {
+      if (start >= 0) items.push(body.slice(start, match.index));
+      start = match.index + match[0].length;
+    }
+  }
+  if (start >= 0) items.push(body.slice(start));
+  return items;
+}
+
+function convertList(name: string, body: string, ctx: LatexContext): string {
+  const indent = "  ".repeat(ctx.listDepth);
+  ctx.listDepth++;
+  const items = splitItems(body);
+  const lines = items.map((item) => {
+    let label = "";
+    const optional = readOptional(item, 0);
+    if (optional) {
+      label = convertInline(optional.value, ctx);
+      item = item.slice(optional.end);
+    }
+    const text = convert(item, ctx).trim().replace(/\n\n+/g, "\n");
+    const marker = name === "enumerate" ? "1." : "-";
+    const prefix = name === "description" && label ? `**${label}** ` : label && name !== "description" ? `${label} ` : "";
+    // Nested lists already carry their own indentation.
+    return `${indent}${marker} ${prefix}${text}`.replace(/\n(?!\s*[-\d])/g, " ");
+  });
+  ctx.listDepth--;
+  return block(lines.join("\n"));
+}
+
+function convertEnvironment(name: string, optional: string | undefined, body: string, ctx: LatexContext): string {
+  const base = name.replace(/\*$/, "");
+
+  if (name in DISPLAY_MATH) {
+    const inner = DISPLAY_MATH[name];
+    const math = cleanMath(body);
+    return block(`$$${inner ? `\\begin{${inner}}${math}\\end{${inner}}` : math}$$`);
+  }
+
+  if (base === "itemize" || base === "enumerate" || base === "description") {
+    return convertList(base, body, ctx);
+  }
+
+  if (base === "proof") {
+    const label = optional ? convertInline(optional, ctx) : "Proof";
+    return block(`*${label}.* ${convert(body, ctx).trim()} ∎`);
+  }
+
+  const theorem = ctx.theorems[base];
+  if (theorem) {
+    const title = optional ? ` (${convertInline(optional, ctx)})` : "";
+    return block(`**${theorem}${title}.** ${convert(body, ctx).trim()}`);
+  }
+
+  if (base === "tabular" || base === "tabularx" || base === "array") {
+    return convertTabular(body.replace(/^\s*(\{[^}]*\}\s*)+/, ""), ctx);
+  }
+
+  if (base === "figure" || base === "table") {
+    const caption = /\\caption\s*(?:\[[^\]]*\])?\s*\{/.exec(body);
+    const group = caption ? readGroup(body, caption.index + caption[0].length - 1) : null;
+    const tables = base === "table" ? convert(body.replace(/\\caption[\s\S]*$/, ""), ctx) : "";
+    const label = base === "figure" ? "Figure" : "Table";
+    return `${tables}${group ? block(`*${label}: ${convertInline(group.value, ctx)}*`) : ""}`;
+  }
+
+  if (base === "verbatim" || base === "lstlisting" || base === "minted") {
+    return block("```\n" + body.replace(/^\s*\n/, "").replace(/\s+$/, "") + "\n```");
+  }
+
+  if (base === "abstract") return block(`**Abstract.** ${convert(body, ctx).trim()}`);
+  if (base === "quote" || base === "quotation") return block(`> ${convert(body, ctx).trim().replace(/\n/g, "\n> ")}`);
+  if (DROPPED_ENVIRONMENTS.has(base)) return "";
+
+  // center, minipage, frame (beamer) and anything unknown: keep contents.
+  return convert(body, ctx);
+}
+
+// Converts a run of LaTeX that is known not to contain block structure.
+function convertInline(src: string, ctx: LatexContext): string {
+  return convert(src, ctx).replace(/\s*\n\s*/g, " ").trim();
+}
+
+function convert(src: string, ctx: LatexContext): string {
+  let out = "";
+  let text = "";
+  let i = 0;
+
+  const flushText = () => {
+    // Single newlines inside a paragraph are just spaces in LaTeX.
+    out += text
+      .replace(/~/g, " ")
+      .replace(/---/g, "—")
+      .replace(/--/g, "–")
+      .replace(/``/g, "“")
+      .replace(/''/g, "”")
+      .replace(/[ \t]*\n[ \t]*\n\s*/g, "\uE001")
+      .replace(/\s+/g, " ")
+      .replace(/\uE001/g, "\n\n");
+    text = "";
+  };
+  const emit = (value: string) => {
+    flushText();
+    out += value;
+  };
+
+  while (i < src.length) {
+    const c = src[i];
+
+    if (c === "$") {
+      const display = src[i + 1] === "$";
+      const delimiter = display ? "$$" : "$";
+      let end = i + delimiter.length;
+      while (end < src.length) {
+        if (src[end] === "\\") {
+          end += 2;
+          continue;
+        }
+        if (src.startsWith(delimiter, end)) break;
+        end++;
+      }
+      const math = cleanMath(src.slice(i + delimiter.length, end));
+      emit(display ? block(`$$${math}$$`) : `$${math}$`);
+      i = end + delimiter.length;
+      continue;
+    }
+
+    if (c === "{" || c === "}") {
+      i++;
+      continue;
+    }
+
+    if (c !== "\\") {
+      text += c;
+      i++;
+      continue;
+    }
+
+    // Display and inline math with bracket delimiters.
+    if (src[i + 1] === "[" || src[i + 1] === "(") {
+      const close = src[i + 1] === "[" ? "\\]" : "\\)";
+      const end = src.indexOf(close, i + 2);
+      const math = cleanMath(src.slice(i + 2, end < 0 ? src.length : end));
+      emit(src[i + 1] === "[" ? block(`$$${math}$$`) : `$${math}$`);
+      i = end < 0 ? src.length : end + 2;
+      continue;
+    }
+
+    const { name, end: nameEnd } = readCommandName(src, i + 1);
+    i = nameEnd;
+
+    if (name === "begin") {
+      const envName = readGroup(src, i);
+      if (!envName) continue;
+      let pos = envName.end;
+      const optional = readOptional(src, pos);
+      if (optional) pos = optional.end;
+      const env = findEnvironmentEnd(src, envName.value, pos);
+      emit(convertEnvironment(envName.value, optional?.value, env.body, ctx));
+      i = env.end;
+      continue;
+    }
+    if (name === "end") {
+      i = readGroup(src, i)?.end ?? i;
+      continue;
+    }
+
+    const section = SECTIONS[name.replace(/\*$/, "")];
+    if (section || name === "paragraph" || name === "subparagraph") {
+      const short = readOptional(src, i);
+      const title = readGroup(src, short?.end ?? i);
+      if (!title) continue;
+      const heading = convertInline(title.value, ctx);
+      emit(block(section ? `${section} ${heading}` : `**${heading}**`));
+      i = title.end;
+      continue;
+    }
+
+    if (name === "maketitle") {
+      if (ctx.title) emit(block(`# ${convertInline(ctx.title, ctx)}`));
+      continue;
+    }
+
+    const formatting: Record<string, [string, string]> = {
+      textbf: ["**", "**"], bf: ["**", "**"], emph: ["*", "*"], textit: ["*", "*"], it: ["*", "*"],
+      texttt: ["`", "`"], underline: ["", ""], textrm: ["", ""], textsf: ["", ""], mbox: ["", ""],
+      text: ["", ""], textsc: ["", ""], textnormal: ["", ""],
+    };
+    if (name in formatting) {
+      const group = readGroup(src, i);
+      if (group) {
+        const [open, close] = formatting[name];
+        const inner = convertInline(group.value, ctx);
+        text += inner ? `${open}${inner}${close}` : "";
+        i = group.end;
+      }
+      continue;
+    }
+
+    if (name === "href") {
+      const url = readGroup(src, i);
+      const label = url && readGroup(src, url.end);
+      if (url && label) {
+        text += `[${convertInline(label.value, ctx)}](${url.value.trim()})`;
+        i = label.end;
+      }
+      continue;
+    }
+    if (name === "url") {
+      const url = readGroup(src, i);
+      if (url) {
+        text += url.value.trim();
+        i = url.end;
+      }
+      continue;
+    }
+    if (name === "footnote") {
+      const note = readGroup(src, i);
+      if (note) {
+        text += ` (${convertInline(note.value, ctx)})`;
+        i = note.end;
+      }
+      continue;
+    }
+    // Numbering is not reproduced, so references show their label key.
+    if (name === "ref" || name === "eqref" || name === "autoref" || name === "cref") {
+      const ref = readGroup(src, i);
+      if (ref) {
+        text += name === "eqref" ? `(${ref.value.trim()})` : ref.value.trim();
+        i = ref.end;
+      }
+      continue;
+    }
+
+    if (DROPPED_COMMANDS.has(name)) {
+      const optional = readOptional(src, i);
+      if (optional) i = optional.end;
+      const group = readGroup(src, i);
+      if (group) i = group.end;
+      continue;
+    }
+
+    if (name in SYMBOL_COMMANDS) {
+      text += SYMBOL_COMMANDS[name];
+      continue;
+    }
+
+    // Accents (\'e, \"o, \^a ...) keep the base letter.
+    if (/^['"`^~=.]$/.test(name)) {
+      const group = readGroup(src, i);
+      if (group) {
+        text += group.value;
+        i = group.end;
+      }
+      continue;
+    }
+
+    // Unknown command: keep the text of its first argument, if any.
+    const group = readGroup(src, i);
+    if (group && /^[A-Za-z]/.test(name) && src[i] === "{") {
+      text += convertInline(group.value, ctx);
+      i = group.end;
+    }
+  }
+
+  flushText();
+  return out;
+}
+
+function normalizeOutput(markdown: string): string {
+  return markdown
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/g, "").replace(/^ (?=\S)/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Converts a complete LaTeX document (or fragment) to Markdown.
+export function latexToMarkdown(source: string): string {
+  const ctx: LatexContext = { macros: new Map(), theorems: { ...THEOREM_LABELS }, listDepth: 0 };
+  const src = stripComments(source);
+  collectDefinitions(src, ctx);
+
+  const begin = src.indexOf("\\begin{document}");
+  const end = src.lastIndexOf("\\end{document}");
+  let body = begin >= 0 ? src.slice(begin + "\\begin{document}".length, end > begin ? end : undefined) : src;
+  body = expandMacros(stripDefinitions(body), ctx.macros);
+
+  let markdown = convert(body, ctx);
+  if (ctx.title && !/^#\s/m.test(markdown)) {
+    markdown = `# ${convertInline(ctx.title, ctx)}\n\n${markdown}`;
+  }
+  return normalizeOutput(markdown);
+}
+
+// Inlines \input / \include / \subfile from the archive, relative to the
+// directory of the file doing the including.
+async function resolveInputs(archive: ZipArchive, path: string, depth: number, seen: Set<string>): Promise<string> {
+  const source = stripComments((await archive.readText(path)) ?? "");
+  if (depth >= MAX_INPUT_DEPTH) return source;
+  seen.add(path);
+
+  const dir = path.slice(0, path.lastIndexOf("/") + 1);
+  const pattern = /\\(input|include|subfile)\s*\{([^}]+)\}/g;
+  let result = "";
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    const target = match[2].trim();
+    const candidates = [target, `${target}.tex`].flatMap((name) => [resolveZipPath(dir, name), resolveZipPath("", name)]);
+    const found = candidates.find((candidate) => archive.has(candidate) && !seen.has(candidate));
+    result += source.slice(last, match.index);
+    if (found) {
+      let included = await resolveInputs(archive, found, depth + 1, seen);
+      // \subfile documents carry their own preamble.
+      const begin = included.indexOf("\\begin{document}");
+      if (begin >= 0) {
+        const end = included.lastIndexOf("\\end{document}");
+        included = included.slice(begin + "\\begin{document}".length, end > begin ? end : undefined);
+      }
+      result += `\n${included}\n`;
+    } else {
+      console.warn("LaTeX input not found in archive:", target);
+    }
+    last = match.index + match[0].length;
+  }
+  return result + source.slice(last);
+}
+
+export function isLatexProject(archive: ZipArchive): boolean {
+  return archive.names().some((name) => name.endsWith(".tex") && !name.startsWith("__MACOSX/"));
+}
+
+// Chooses the root document of a zipped project: the shallowest file with
+// \documentclass, else a conventionally named one, else the shallowest.
+async function findMainFile(archive: ZipArchive): Promise<string | undefined> {
+  const preferred = ["main.tex", "lecture.tex", "notes.tex"];
+  const depth = (name: string) => name.split("/").length;
+  const texFiles = archive
+    .names()
+    .filter((name) => name.endsWith(".tex") && !name.startsWith("__MACOSX/"))
+    .sort((a, b) => depth(a) - depth(b));
+
+  for (const name of texFiles) {
+    if (/\\documentclass/.test(stripComments((await archive.readText(name)) ?? ""))) return name;
+  }
+  return texFiles.find((name) => preferred.includes(name.split("/").pop()!)) ?? texFiles[0];
+}
+
+export function extractLatex(bytes: Uint8Array): ExtractedDocument {
+  const source = new TextDecoder("utf-8").decode(bytes);
+  return { pages: [{ number: 1, text: latexToMarkdown(source) }], isStructured: true };
+}
+
+export async function extractLatexProject(archive: ZipArchive): Promise<ExtractedDocument> {
+  const main = await findMainFile(archive);
+  if (!main) throw new Error("No .tex file found in the archive");
+
+  const source = await resolveInputs(archive, main, 0, new Set());
+  return { pages: [{ number: 1, text: latexToMarkdown(source) }], isStructured: true };
+}
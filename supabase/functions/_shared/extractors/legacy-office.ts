@@ -0,0 +1,295 @@
+// Text extraction for the pre-2007 binary Office formats (.doc and .ppt).
+//
+// Word: the FIB in the WordDocument stream points at the piece table (Clx)
+// in the table stream, which maps character positions onto runs of either
+// 8-bit (cp1252) or UTF-16 text in the WordDocument stream.
+//
+// PowerPoint: the "PowerPoint Document" stream is a tree of records; slide
+// text lives in TextCharsAtom / TextBytesAtom records, either in the
+// SlideListWithText of the document container or inside each slide's
+// drawing.
+
+import { ExtractedDocument, ExtractedPage } from "./types.ts";
+import { CompoundFile } from "./cfb.ts";
+
+// ---------------------------------------------------------------------------
+// Word 97-2003
+// ---------------------------------------------------------------------------
+
+const CP1252 = new TextDecoder("windows-1252");
+const UTF16 = new TextDecoder("utf-16le");
+
+function wordPieces(wordDocument: Uint8Array, table: Uint8Array, clxOffset: number, clxLength: number) {
+  const view = new DataView(table.buffer, table.byteOffset, table.byteLength);
+  let pos = clxOffset;
+  const end = Math.min(clxOffset + clxLength, table.length);
+
+  // Skip any Prc (property modifier) blocks preceding the piece table.
+  while (pos < end && table[pos] === 0x01) {
+    pos += 3 + view.getUint16(pos + 1, true);
+  }
+  if (table[pos] !== 0x02) throw new Error("Corrupt Word document: piece table not found");
+
+  const length = view.getUint32(pos + 1, true);
+  const start = pos + 5;
+  const count = (length - 4) / 12;
+  const pieces: Array<{ cpStart: number; cpEnd: number; fc: number; compressed: boolean }> = [];
+
+  for (let i = 0; i < count; i++) {
+    const descriptor = start + (count + 1) * 4 + i * 8;
+    const rawFc = view.getUint32(descriptor + 2, true);
+    const compressed = (rawFc & 0x40000000) !== 0;
+    pieces.push({
+      cpStart: view.getUint32(start + i * 4, true),
+      cpEnd: view.getUint32(start + (i + 1) * 4, true),
+      fc: compressed ? (rawFc & 0x3fffffff) / 2 : rawFc & 0x3fffffff,
+      compressed,
+    });
+  }
+
+  let text = "";
+  for (const piece of pieces) {
+    const chars = piece.cpEnd - piece.cpStart;
+    if (chars <= 0) continue;
+    if (piece.compressed) {
+      text += CP1252.decode(wordDocument.subarray(piece.fc, piece.fc + chars));
+    } else {
+      text += UTF16.decode(wordDocument.subarray(piece.fc, piece.fc + chars * 2));
+    }
+  }
+  return text;
+}
+
+// Applies Word's in-band control characters: fields keep only their
+// displayed result, table cell marks become separators and form feeds
+// mark page/section breaks.
+function cleanWordText(raw: string): string[] {
+  let text = "";
+  const fields: Array<"code" | "result"> = [];
+
+  for (const char of raw) {
+    switch (char) {
+      case "\u0013":
+        fields.push("code");
+        continue;
+      case "\u0014":
+        if (fields.length) fields[fields.length - 1] = "result";
+        continue;
+      case "\u0015":
+        fields.pop();
+        continue;
+    }
+    if (fields.includes("code")) continue;
+
+    switch (char) {
+      case "\r":
+      case "\u000b":
+        text += "\n";
+        break;
+      case "\u0007":
+        text += " | ";
+        break;
+      case "\u001e":
+        text += "-";
+        break;
+      case "\u00a0":
+        text += " ";
+        break;
+      case "\u000c":
+        text += "\u000c";
+        break;
+      default:
+        // Drop picture anchors, footnote marks and other placeholders.
+        if (char >= " " || char === "\t") text += char;
+    }
+  }
+
+  return text.split("\u000c").map((page) =>
+    page
+      .split("\n")
+      .map((line) => line.replace(/[ \t]+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim(),
+  );
+}
+
+export function extractDoc(bytes: Uint8Array): ExtractedDocument {
+  const file = CompoundFile.open(bytes);
+  const wordDocument = file.stream("WordDocument");
+  if (!wordDocument) throw new Error("Not a Word document: WordDocument stream is missing");
+
+  const view = new DataView(wordDocument.buffer, wordDocument.byteOffset, wordDocument.byteLength);
+  if (view.getUint16(0, true) !== 0xa5ec) throw new Error("Unsupported Word document version");
+
+  const flags = view.getUint16(0x0a, true);
+  if (flags & 0x0100) throw new Error("This Word document is password-protected");
+
+  const table = file.stream(flags & 0x0200 ? "1Table" : "0Table");
+  if (!table) throw new Error("Corrupt Word document: table stream is missing");
+
+  // FibRgW97 and FibRgLw97 are variable length; walk them to reach
+  // FibRgFcLcb97, where fcClx/lcbClx is pair 33.
+  let pos = 32;
+  const csw = view.getUint16(pos, true);
+  pos += 2 + csw * 2;
+  const cslw = view.getUint16(pos, true);
+  const ccpText = view.getUint32(pos + 2 + 3 * 4, true);
+  pos += 2 + cslw * 4 + 2;
+  const fcClx = view.getUint32(pos + 33 * 8, true);
+  const lcbClx = view.getUint32(pos + 33 * 8 + 4, true);
+
+  // The main document comes first; footnotes, headers and comments follow.
+  const raw = wordPieces(wordDocument, table, fcClx, lcbClx).slice(0, ccpText || undefined);
+  const pages: ExtractedPage[] = cleanWordText(raw)
+    .filter((page) => page.length > 0)
+    .map((text, index) => ({ number: index + 1, text }));
+  return { pages };
+}
+
+// ---------------------------------------------------------------------------
+// PowerPoint 97-2003
+// ---------------------------------------------------------------------------
+
+const RT_DOCUMENT = 0x03e8;
+const RT_SLIDE = 0x03ee;
+const RT_SLIDE_PERSIST_ATOM = 0x03f3;
+const RT_TEXT_HEADER_ATOM = 0x0f9f;
+const RT_TEXT_CHARS_ATOM = 0x0fa0;
+const RT_TEXT_BYTES_ATOM = 0x0fa8;
+const RT_SLIDE_LIST_WITH_TEXT = 0x0ff0;
+
+// TextHeaderAtom textType values.
+const TITLE_TYPES = new Set([0, 6]);
+const BODY_TYPES = new Set([1, 5, 7, 8]);
+
+interface PptRecord {
+  type: number;
+  instance: number;
+  start: number;
+  end: number;
+  isContainer: boolean;
+}
+
+interface PptSlide {
+  title: string;
+  blocks: string[];
+}
+
+function readRecords(data: Uint8Array, start: number, end: number): PptRecord[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const records: PptRecord[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    const verInstance = view.getUint16(pos, true);
+    const length = view.getUint32(pos + 4, true);
+    const recordEnd = Math.min(pos + 8 + length, end);
+    records.push({
+      type: view.getUint16(pos + 2, true),
+      instance: verInstance >> 4,
+      start: pos + 8,
+      end: recordEnd,
+      isContainer: (verInstance & 0x0f) === 0x0f,
+    });
+    pos = recordEnd;
+  }
+  return records;
+}
+
+class PptTextCollector {
+  private textType = 4;
+
+  constructor(private data: Uint8Array, private slide: PptSlide) {}
+
+  record(record: PptRecord) {
+    switch (record.type) {
+      case RT_TEXT_HEADER_ATOM:
+        this.textType = new DataView(this.data.buffer, this.data.byteOffset + record.start, 4).getUint32(0, true);
+        break;
+      case RT_TEXT_CHARS_ATOM:
+        this.add(UTF16.decode(this.data.subarray(record.start, record.end)));
+        break;
+      case RT_TEXT_BYTES_ATOM:
+        this.add(CP1252.decode(this.data.subarray(record.start, record.end)));
+        break;
+      default:
+        if (record.isContainer) {
+          for (const child of readRecords(this.data, record.start, record.end)) this.record(child);
+        }
+    }
+  }
+
+  private add(text: string) {
+    const paragraphs = text
+      .split(/[\r\n]/)
+      .map((line) => line.replaceAll("\u000b", " ").replace(/[ \t]+/g, " ").trim())
+      .filter(Boolean);
+    if (paragraphs.length === 0) return;
+
+    if (TITLE_TYPES.has(this.textType) && !this.slide.title) {
+      this.slide.title = paragraphs.join(" ");
+    } else if (BODY_TYPES.has(this.textType)) {
+      this.slide.blocks.push(paragraphs.map((line) => `- ${line}`).join("\n"));
+    } else {
+      this.slide.blocks.push(paragraphs.join("\n\n"));
+    }
+    this.textType = 4;
+  }
+}
+
+// Text attached to SlideListWithText: a SlidePersistAtom starts each slide
+// and the text atoms that follow belong to it.
+function slidesFromList(data: Uint8Array, list: PptRecord): PptSlide[] {
+  const slides: PptSlide[] = [];
+  let collector: PptTextCollector | null = null;
+  for (const record of readRecords(data, list.start, list.end)) {
+    if (record.type === RT_SLIDE_PERSIST_ATOM) {
+      const slide: PptSlide = { title: "", blocks: [] };
+      slides.push(slide);
+      collector = new PptTextCollector(data, slide);
+    } else if (collector) {
+      collector.record(record);
+    }
+  }
+  return slides;
+}
+
+function formatSlide(slide: PptSlide, index: number, notes?: PptSlide): string {
+  const blocks = [`## ${slide.title || `Slide ${index + 1}`}`, ...slide.blocks];
+  const noteText = notes ? [notes.title, ...notes.blocks].filter(Boolean) : [];
+  if (noteText.length > 0) blocks.push("**Speaker notes:**", ...noteText);
+  return blocks.join("\n\n");
+}
+
+export function extractPpt(bytes: Uint8Array): ExtractedDocument {
+  const file = CompoundFile.open(bytes);
+  const data = file.stream("PowerPoint Document");
+  if (!data) throw new Error("Not a PowerPoint presentation: PowerPoint Document stream is missing");
+  if (file.stream("EncryptedSummary")) throw new Error("This PowerPoint presentation is password-protected");
+
+  const topLevel = readRecords(data, 0, data.length);
+  const document = topLevel.find((record) => record.type === RT_DOCUMENT);
+  const lists = document ? readRecords(data, document.start, document.end).filter((r) => r.type === RT_SLIDE_LIST_WITH_TEXT) : [];
+
+  let slides = lists.filter((list) => list.instance === 0).flatMap((list) => slidesFromList(data, list));
+  const notes = lists.filter((list) => list.instance === 2).flatMap((list) => slidesFromList(data, list));
+
+  // Presentations saved by newer PowerPoint versions keep text only in
+  // the slide drawings, so fall back to walking each slide container.
+  const hasText = slides.some((slide) => slide.title || slide.blocks.length > 0);
+  if (!hasText) {
+    slides = topLevel
+      .filter((record) => record.type === RT_SLIDE)
+      .map((record) => {
+        const slide: PptSlide = { title: "", blocks: [] };
+        new PptTextCollector(data, slide).record(record);
+        return slide;
+      });
+  }
+
+  const pages: ExtractedPage[] = slides.map((slide, index) => ({
+    number: index + 1,
+    text: formatSlide(slide, index, notes[index]),
+  }));
+  return { pages };
+}
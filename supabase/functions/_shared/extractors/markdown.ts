@@ -0,0 +1,41 @@
+// Markdown sources are already in the dialect MathRenderer shows, so they
+// are only normalised: YAML front matter is dropped (its title becomes the
+// top heading) and LaTeX display environments are wrapped for KaTeX.
+
+import { ExtractedDocument } from "./types.ts";
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\r?\n/;
+
+export function normalizeMarkdown(source: string): string {
+  let text = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+  const frontMatter = FRONT_MATTER.exec(text);
+  if (frontMatter) {
+    text = text.slice(frontMatter[0].length);
+    const title = /^title:\s*["']?(.*?)["']?\s*$/m.exec(frontMatter[1]);
+    if (title?.[1] && !/^#\s/m.test(text)) text = `# ${title[1]}\n\n${text}`;
+  }
+
+  // Bare \begin{align}...\end{align} blocks are common in notes exported
+  // from Obsidian and Jupyter; KaTeX only renders them inside $$.
+  return text
+    .split(/(\n```[^\n]*\n[\s\S]*?\n```)/)
+    .map((part) => {
+      if (part.startsWith("\n```")) return part;
+      return part.replace(
+        /(^|\n)(\\begin\{(equation|align|gather|multline)\*?\}[\s\S]*?\\end\{\3\*?\})/g,
+        (match, lead: string, env: string, name: string, offset: number, whole: string) => {
+          const before = whole.slice(0, offset + lead.length).trimEnd();
+          return before.endsWith("$$") ? match : `${lead}$$${env.replace(/\\label\{[^}]*\}/g, "")}$$`;
+        },
+      );
+    })
+    .join("")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function extractMarkdown(bytes: Uint8Array): ExtractedDocument {
+  const source = new TextDecoder("utf-8").decode(bytes);
+  return { pages: [{ number: 1, text: normalizeMarkdown(source) }], isStructured: true };
+}
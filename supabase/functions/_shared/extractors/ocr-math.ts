@@ -0,0 +1,238 @@
+// Math-aware pass over OCR output.
+//
+// Tesseract reads a formula as the characters it sees ("x² + 1 ≤ y",
+// "sqrt(a)/2", "∫ f(x) dx"). This pass rewrites what it can make out as
+// LaTeX, so recognised formulas render like those of any other source: a
+// line that is all math becomes a display formula, math inside a sentence
+// becomes inline math, and everything else is left as it was.
+
+const SYMBOLS: Record<string, string> = {
+  "α": "\\alpha",
+  "β": "\\beta",
+  "γ": "\\gamma",
+  "δ": "\\delta",
+  "ε": "\\varepsilon",
+  "ζ": "\\zeta",
+  "η": "\\eta",
+  "θ": "\\theta",
+  "κ": "\\kappa",
+  "λ": "\\lambda",
+  "μ": "\\mu",
+  "ν": "\\nu",
+  "ξ": "\\xi",
+  "π": "\\pi",
+  "ρ": "\\rho",
+  "σ": "\\sigma",
+  "τ": "\\tau",
+  "φ": "\\varphi",
+  "χ": "\\chi",
+  "ψ": "\\psi",
+  "ω": "\\omega",
+  "Γ": "\\Gamma",
+  "Δ": "\\Delta",
+  "Θ": "\\Theta",
+  "Λ": "\\Lambda",
+  "Ξ": "\\Xi",
+  "Π": "\\Pi",
+  "Σ": "\\Sigma",
+  "Φ": "\\Phi",
+  "Ψ": "\\Psi",
+  "Ω": "\\Omega",
+  "×": "\\times",
+  "÷": "\\div",
+  "±": "\\pm",
+  "∓": "\\mp",
+  "·": "\\cdot",
+  "−": "-",
+  "≤": "\\leq",
+  "≥": "\\geq",
+  "≠": "\\neq",
+  "≈": "\\approx",
+  "≡": "\\equiv",
+  "∝": "\\propto",
+  "∞": "\\infty",
+  "∂": "\\partial",
+  "∇": "\\nabla",
+  "∈": "\\in",
+  "∉": "\\notin",
+  "⊂": "\\subset",
+  "⊆": "\\subseteq",
+  "∪": "\\cup",
+  "∩": "\\cap",
+  "∅": "\\emptyset",
+  "∀": "\\forall",
+  "∃": "\\exists",
+  "→": "\\to",
+  "⇒": "\\Rightarrow",
+  "⇔": "\\Leftrightarrow",
+  "↔": "\\leftrightarrow",
+  "∑": "\\sum",
+  "∏": "\\prod",
+  "∫": "\\int",
+  "∬": "\\iint",
+  "∮": "\\oint",
+  "ℕ": "\\mathbb{N}",
+  "ℤ": "\\mathbb{Z}",
+  "ℚ": "\\mathbb{Q}",
+  "ℝ": "\\mathbb{R}",
+  "ℂ": "\\mathbb{C}",
+  "°": "^{\\circ}",
+  "′": "'",
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4", "⁵": "5", "⁶": "6", "⁷": "7", "⁸": "8", "⁹": "9",
+  "⁺": "+", "⁻": "-", "⁼": "=", "⁽": "(", "⁾": ")", "ⁿ": "n", "ⁱ": "i",
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+  "₀": "0", "₁": "1", "₂": "2", "₃": "3", "₄": "4", "₅": "5", "₆": "6", "₇": "7", "₈": "8", "₉": "9",
+  "₊": "+", "₋": "-", "₌": "=", "₍": "(", "₎": ")", "ₐ": "a", "ₑ": "e", "ₒ": "o", "ₓ": "x", "ₙ": "n", "ᵢ": "i", "ⱼ": "j",
+};
+
+const FUNCTIONS = [
+  "arcsin", "arccos", "arctan", "sinh", "cosh", "tanh", "sin", "cos", "tan", "cot", "sec", "csc",
+  "log", "ln", "exp", "lim", "det", "max", "min", "sqrt",
+];
+
+const characterClass = (chars: string[]) => `[${chars.join("").replace(/[\\\]^-]/g, "\\$&")}]`;
+const SYMBOL_PATTERN = new RegExp(characterClass(Object.keys(SYMBOLS)), "g");
+const SUPERSCRIPT_RUN = new RegExp(`${characterClass(Object.keys(SUPERSCRIPTS))}+`, "g");
+const SUBSCRIPT_RUN = new RegExp(`${characterClass(Object.keys(SUBSCRIPTS))}+`, "g");
+const FUNCTION_PATTERN = new RegExp(`(?<![\\\\A-Za-z])(${FUNCTIONS.filter((name) => name !== "sqrt").join("|")})(?![A-Za-z])`, "g");
+
+// Characters that only occur in math: relations, operators, big
+// operators, Greek letters, raised and lowered characters
+const STRONG_MATH = new RegExp(
+  `[=<>^√+]|${characterClass(Object.keys(SYMBOLS).filter((symbol) => symbol !== "′"))}|` +
+    `${characterClass(Object.keys(SUPERSCRIPTS))}|${characterClass(Object.keys(SUBSCRIPTS))}`,
+);
+
+// A token can be part of a formula if its letters are single variables,
+// function names or pairs of them (uv, dx), and it has nothing but
+// letters, digits and math punctuation
+function isMathToken(token: string): boolean {
+  if (STRONG_MATH.test(token)) {
+    return (token.match(/[A-Za-z]+/g) ?? []).every(isMathWord);
+  }
+  if (!/^[A-Za-z0-9().,'\-*/|[\]{}!_:;]+$/.test(token)) return false;
+  return (token.match(/[A-Za-z]+/g) ?? []).every(isMathWord);
+}
+
+// Two-letter words that are English rather than a product of variables
+const SHORT_WORDS = new Set([
+  "am", "an", "as", "at", "be", "by", "do", "go", "he", "if", "in", "is", "it", "me", "my", "no", "of", "on", "or",
+  "so", "to", "up", "us", "we", "eg", "ie", "vs",
+]);
+
+function isMathWord(word: string): boolean {
+  if (word.length === 1 || FUNCTIONS.includes(word)) return true;
+  return word.length === 2 && word === word.toLowerCase() && !SHORT_WORDS.has(word);
+}
+
+// Index of the parenthesis closing the one at `open`, or -1
+function closingParen(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    else if (text[i] === ")" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function replaceSquareRoots(text: string): string {
+  let result = "";
+  let pos = 0;
+  const root = /(?:√|\bsqrt)\s*(?=\()/g;
+  for (let match = root.exec(text); match; match = root.exec(text)) {
+    const open = match.index + match[0].length;
+    const close = closingParen(text, open);
+    if (close < 0) break;
+    result += `${text.slice(pos, match.index)}\\sqrt{${replaceSquareRoots(text.slice(open + 1, close))}}`;
+    pos = close + 1;
+    root.lastIndex = pos;
+  }
+  return (result + text.slice(pos)).replace(/√\s*([A-Za-z0-9]+)/g, "\\sqrt{$1}");
+}
+
+const stripParens = (atom: string) => (atom.startsWith("(") && atom.endsWith(")") ? atom.slice(1, -1) : atom);
+
+// Rewrites one formula, as read by OCR, in LaTeX
+export function formulaToLatex(formula: string): string {
+  let latex = formula
+    .replace(/<=/g, "≤")
+    .replace(/>=/g, "≥")
+    .replace(/!=/g, "≠")
+    .replace(/->/g, "→")
+    .replace(/=>/g, "⇒")
+    .replace(/\+-/g, "±");
+
+  latex = replaceSquareRoots(latex)
+    .replace(SUPERSCRIPT_RUN, (run) => `^{${[...run].map((c) => SUPERSCRIPTS[c]).join("")}}`)
+    .replace(SUBSCRIPT_RUN, (run) => `_{${[...run].map((c) => SUBSCRIPTS[c]).join("")}}`)
+    .replace(/\^\(([^()]*)\)/g, "^{$1}")
+    .replace(/\^(-[A-Za-z0-9]+|[A-Za-z0-9]{2,})/g, "^{$1}")
+    .replace(/_([A-Za-z0-9]{2,})/g, "_{$1}")
+    .replace(/\blim\s*([A-Za-z])\s*→\s*([^\s)]+)/g, "lim_{$1 → $2}")
+    // A parenthesised numerator is a group unless it belongs to a function
+    // call (sin(x)/x)
+    .replace(
+      /((?<![A-Za-z0-9])\([^()]*\)|[A-Za-z0-9.]+(?:\([^()]*\))?)\/(\([^()]*\)|[A-Za-z0-9.]+(?:\([^()]*\))?)/g,
+      (_, numerator: string, denominator: string) => `\\frac{${stripParens(numerator)}}{${stripParens(denominator)}}`,
+    )
+    .replace(FUNCTION_PATTERN, "\\$1")
+    .replace(/\*/g, "\\cdot ")
+    .replace(SYMBOL_PATTERN, (symbol, offset: number, text: string) => {
+      const command = SYMBOLS[symbol];
+      // A command needs a space before a following letter (\pi r, not \pir)
+      return /^\\[A-Za-z]+$/.test(command) && /[A-Za-z]/.test(text[offset + 1] ?? "") ? `${command} ` : command;
+    });
+
+  return latex.replace(/\s+/g, " ").trim();
+}
+
+const LIST_MARKER = /^(\s*(?:\d+[.)]|[-*•]|\([a-z0-9]+\))\s+)/;
+
+function convertLine(line: string): string {
+  // Already LaTeX or Markdown math
+  if (!line.trim() || line.includes("$") || line.includes("\\")) return line;
+
+  const marker = LIST_MARKER.exec(line)?.[1] ?? "";
+  const body = line.slice(marker.length);
+  const tokens = body.trim().split(/\s+/);
+
+  if (!marker && tokens.every(isMathToken) && STRONG_MATH.test(body)) {
+    return `$$${formulaToLatex(body)}$$`;
+  }
+
+  // Wrap each run of math tokens that has something only math has
+  const output: string[] = [];
+  let run: string[] = [];
+  const flush = () => {
+    if (run.length > 0 && STRONG_MATH.test(run.join(" ")) && /[A-Za-z0-9]/.test(run.join(""))) {
+      // Sentence punctuation after the formula stays outside it
+      const last = run[run.length - 1];
+      const trailing = /[.,;:]+$/.exec(last)?.[0] ?? "";
+      run[run.length - 1] = last.slice(0, last.length - trailing.length);
+      output.push(`$${formulaToLatex(run.join(" "))}$${trailing}`);
+    } else {
+      output.push(...run);
+    }
+    run = [];
+  };
+  for (const token of tokens) {
+    if (isMathToken(token)) {
+      run.push(token);
+    } else {
+      flush();
+      output.push(token);
+    }
+  }
+  flush();
+  return marker + output.join(" ");
+}
+
+// Rewrites the formulas in recognised text as LaTeX, line by line
+export function mathToLatex(text: string): string {
+  return text.split("\n").map(convertLine).join("\n");
+}
@@ -0,0 +1,104 @@
+// Optical character recognition for photographed and scanned notes, with
+// Tesseract compiled to WebAssembly (tesseract-wasm). The engine runs in
+// the function itself; its two assets are fetched once per instance from
+// URLs set as function secrets:
+//
+//   OCR_WASM_URL   the engine binary, tesseract-core.wasm from the
+//                  tesseract-wasm 0.11.0 package
+//   OCR_MODEL_URL  the trained model, eng.traineddata from tessdata_fast
+//
+// Both are uploaded to the public ocr-assets bucket, e.g.
+// https://<project-ref>.supabase.co/storage/v1/object/public/ocr-assets/tesseract-core.wasm,
+// so recognition depends on no third-party host. file:// URLs work for
+// local runs. Recognised text goes through the math pass (ocr-math.ts).
+
+import type { OCREngine, TextItem } from "https://esm.sh/tesseract-wasm@0.11.0";
+import { fitWithin, RasterImage, rotate } from "./raster.ts";
+import { mathToLatex } from "./ocr-math.ts";
+
+// Photos are scaled down to this; more pixels only slow recognition down
+const MAX_SIDE = 3000;
+// Mean word confidence above which a reading is taken as is; below it, a
+// photo is also read turned by 90, 180 and 270 degrees
+const CONFIDENT_READING = 0.6;
+
+let engine: Promise<OCREngine> | null = null;
+
+function assetUrl(name: string): string {
+  const url = Deno.env.get(name);
+  if (!url) throw new Error(`OCR is not configured: set ${name} to the URL of the OCR engine files`);
+  return url;
+}
+
+async function fetchAsset(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load OCR engine from ${url} (${response.status})`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Loaded on first use, since most uploads never need it. A failed load is
+// tried again by the next call.
+function loadEngine(): Promise<OCREngine> {
+  engine ??= (async () => {
+    const { createOCREngine } = await import("https://esm.sh/tesseract-wasm@0.11.0");
+    const [wasmBinary, model] = await Promise.all([
+      fetchAsset(assetUrl("OCR_WASM_URL")),
+      fetchAsset(assetUrl("OCR_MODEL_URL")),
+    ]);
+    const ocr = await createOCREngine({ wasmBinary });
+    ocr.loadModel(model);
+    return ocr;
+  })().catch((error) => {
+    engine = null;
+    throw error;
+  });
+  return engine;
+}
+
+interface Reading {
+  text: string;
+  confidence: number;
+}
+
+// The engine takes ImageData, which has the same RGBA layout
+function toImageData({ data, width, height }: RasterImage): ImageData {
+  return new ImageData(data, width, height);
+}
+
+function read(ocr: OCREngine, image: RasterImage): Reading {
+  try {
+    ocr.loadImage(toImageData(image));
+    const words: TextItem[] = ocr.getTextBoxes("word");
+    const characters = words.reduce((sum, word) => sum + word.text.length, 0);
+    const confidence = characters > 0
+      ? words.reduce((sum, word) => sum + word.confidence * word.text.length, 0) / characters
+      : 0;
+    return { text: ocr.getText().trim(), confidence };
+  } finally {
+    ocr.clearImage();
+  }
+}
+
+export interface RecognizeOptions {
+  // Try the other orientations when the upright reading is poor. Worth it
+  // for photos, which are often taken sideways; scanned pages are upright.
+  detectOrientation?: boolean;
+}
+
+// Recognises the text in an image, with formulas rewritten as LaTeX.
+// Tesseract's own orientation estimate is unreliable on lecture notes, so
+// the orientation that reads with the highest confidence wins instead.
+export async function recognizeText(image: RasterImage, { detectOrientation = false }: RecognizeOptions = {}): Promise<string> {
+  const ocr = await loadEngine();
+  const page = fitWithin(image, MAX_SIDE);
+
+  let best = read(ocr, page);
+  if (detectOrientation) {
+    for (const degrees of [180, 90, 270]) {
+      if (best.confidence >= CONFIDENT_READING) break;
+      const reading = read(ocr, rotate(page, degrees));
+      if (reading.confidence > best.confidence) best = reading;
+    }
+  }
+  return mathToLatex(best.text);
+}
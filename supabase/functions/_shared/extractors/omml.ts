@@ -0,0 +1,238 @@
+// Converts Office Math Markup (OMML, the m:* namespace used by Word and
+// PowerPoint equations) to LaTeX that KaTeX can render.
+
+import { XmlElement, childElements, firstChild, isElement, localName, textContent } from "./xml.ts";
+
+const SYMBOLS: Record<string, string> = {
+  "α": "\\alpha", "β": "\\beta", "γ": "\\gamma", "δ": "\\delta", "ε": "\\varepsilon", "ϵ": "\\epsilon",
+  "ζ": "\\zeta", "η": "\\eta", "θ": "\\theta", "ϑ": "\\vartheta", "ι": "\\iota", "κ": "\\kappa",
+  "λ": "\\lambda", "μ": "\\mu", "ν": "\\nu", "ξ": "\\xi", "π": "\\pi", "ϖ": "\\varpi", "ρ": "\\rho",
+  "σ": "\\sigma", "ς": "\\varsigma", "τ": "\\tau", "υ": "\\upsilon", "φ": "\\phi", "ϕ": "\\phi",
+  "χ": "\\chi", "ψ": "\\psi", "ω": "\\omega",
+  "Γ": "\\Gamma", "Δ": "\\Delta", "Θ": "\\Theta", "Λ": "\\Lambda", "Ξ": "\\Xi", "Π": "\\Pi",
+  "Σ": "\\Sigma", "Υ": "\\Upsilon", "Φ": "\\Phi", "Ψ": "\\Psi", "Ω": "\\Omega",
+  "≤": "\\leq", "≥": "\\geq", "≠": "\\neq", "≈": "\\approx", "≡": "\\equiv", "∝": "\\propto",
+  "∼": "\\sim", "≅": "\\cong", "×": "\\times", "÷": "\\div", "±": "\\pm", "∓": "\\mp",
+  "·": "\\cdot", "⋅": "\\cdot", "∘": "\\circ", "∞": "\\infty", "∂": "\\partial", "∇": "\\nabla",
+  "→": "\\to", "←": "\\leftarrow", "↔": "\\leftrightarrow", "⇒": "\\Rightarrow", "⇐": "\\Leftarrow",
+  "⇔": "\\Leftrightarrow", "↦": "\\mapsto", "∈": "\\in", "∉": "\\notin", "∋": "\\ni",
+  "⊂": "\\subset", "⊃": "\\supset", "⊆": "\\subseteq", "⊇": "\\supseteq", "∪": "\\cup", "∩": "\\cap",
+  "∀": "\\forall", "∃": "\\exists", "∅": "\\emptyset", "¬": "\\neg", "∧": "\\wedge", "∨": "\\vee",
+  "…": "\\ldots", "⋯": "\\cdots", "⋮": "\\vdots", "⋱": "\\ddots", "′": "'", "″": "''",
+  "°": "^\\circ", "−": "-", "∗": "*", "⊥": "\\perp", "∥": "\\parallel", "∠": "\\angle",
+  "ℝ": "\\mathbb{R}", "ℕ": "\\mathbb{N}", "ℤ": "\\mathbb{Z}", "ℚ": "\\mathbb{Q}", "ℂ": "\\mathbb{C}",
+  "ℓ": "\\ell", "ℏ": "\\hbar", "⟨": "\\langle", "⟩": "\\rangle",
+  "{": "\\{", "}": "\\}", "%": "\\%", "#": "\\#", "$": "\\$", "_": "\\_", "\\": "\\backslash",
+};
+
+const NARY: Record<string, string> = {
+  "∑": "\\sum", "∏": "\\prod", "∐": "\\coprod", "∫": "\\int", "∬": "\\iint", "∭": "\\iiint",
+  "∮": "\\oint", "⋃": "\\bigcup", "⋂": "\\bigcap", "⋁": "\\bigvee", "⋀": "\\bigwedge",
+};
+
+const ACCENTS: Record<string, string> = {
+  "̂": "\\hat", "̃": "\\tilde", "̄": "\\bar", "̅": "\\bar", "̇": "\\dot",
+  "̈": "\\ddot", "⃗": "\\vec", "̌": "\\check", "̆": "\\breve",
+  "́": "\\acute", "̀": "\\grave",
+};
+
+const DELIMITERS: Record<string, string> = {
+  "{": "\\{", "}": "\\}", "⟨": "\\langle", "⟩": "\\rangle", "‖": "\\|", "⌊": "\\lfloor",
+  "⌋": "\\rfloor", "⌈": "\\lceil", "⌉": "\\rceil", "": ".",
+};
+
+const FUNCTIONS = new Set([
+  "sin", "cos", "tan", "cot", "sec", "csc", "sinh", "cosh", "tanh", "coth", "arcsin", "arccos",
+  "arctan", "log", "ln", "lg", "exp", "lim", "max", "min", "sup", "inf", "det", "dim", "ker",
+  "deg", "gcd", "arg", "Pr",
+]);
+
+function prop(element: XmlElement, propName: string, key: string): string | undefined {
+  const props = childElements(element).find((child) => localName(child.name) === propName);
+  const item = props && childElements(props).find((child) => localName(child.name) === key);
+  if (!item) return undefined;
+  return item.attributes["m:val"] ?? item.attributes["val"] ?? "";
+}
+
+function part(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element).find((child) => localName(child.name) === name);
+}
+
+function group(latex: string): string {
+  return `{${latex}}`;
+}
+
+function convertText(text: string): string {
+  const trimmed = text.trim();
+  if (FUNCTIONS.has(trimmed)) return `\\${trimmed} `;
+
+  let result = "";
+  for (const char of text) {
+    const symbol = SYMBOLS[char];
+    if (symbol) {
+      result += /^\\[a-zA-Z]+$/.test(symbol) ? `${symbol} ` : symbol;
+    } else if (char === "^") {
+      result += "\\hat{}";
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+function convertChildren(element: XmlElement | undefined): string {
+  if (!element) return "";
+  return element.children
+    .filter(isElement)
+    .map(convertElement)
+    .join("")
+    .replace(/\s+/g, " ");
+}
+
+function convertElement(element: XmlElement): string {
+  const name = localName(element.name);
+  const prefix = element.name.slice(0, element.name.indexOf(":"));
+
+  // Non-math runs embedded in an equation (w:r) are prose.
+  if (prefix === "w") {
+    if (name === "r") {
+      const text = textContent(firstChild(element, "w:t"));
+      return text ? `\\text{${text}}` : "";
+    }
+    return "";
+  }
+
+  switch (name) {
+    case "oMath":
+    case "e":
+    case "num":
+    case "den":
+    case "sub":
+    case "sup":
+    case "deg":
+    case "lim":
+    case "fName":
+    case "box":
+    case "borderBox":
+    case "phant":
+      return convertChildren(element);
+
+    case "r": {
+      const text = childElements(element)
+        .filter((child) => localName(child.name) === "t")
+        .map(textContent)
+        .join("");
+      const plain = part(element, "rPr") && prop(element, "rPr", "nor") !== undefined;
+      return plain ? `\\text{${text}}` : convertText(text);
+    }
+
+    case "f": {
+      const num = convertChildren(part(element, "num"));
+      const den = convertChildren(part(element, "den"));
+      switch (prop(element, "fPr", "type")) {
+        case "lin":
+          return `${group(num)}/${group(den)}`;
+        case "noBar":
+          return `{${num} \\atop ${den}}`;
+        default:
+          return `\\frac${group(num)}${group(den)}`;
+      }
+    }
+
+    case "sSup":
+      return `${group(convertChildren(part(element, "e")))}^${group(convertChildren(part(element, "sup")))}`;
+    case "sSub":
+      return `${group(convertChildren(part(element, "e")))}_${group(convertChildren(part(element, "sub")))}`;
+    case "sSubSup":
+      return `${group(convertChildren(part(element, "e")))}_${group(convertChildren(part(element, "sub")))}^${group(convertChildren(part(element, "sup")))}`;
+    case "sPre":
+      return `{}_${group(convertChildren(part(element, "sub")))}^${group(convertChildren(part(element, "sup")))}${group(convertChildren(part(element, "e")))}`;
+
+    case "rad": {
+      const degree = convertChildren(part(element, "deg")).trim();
+      const hidden = prop(element, "radPr", "degHide");
+      const base = group(convertChildren(part(element, "e")));
+      return degree && hidden !== "1" && hidden !== "on" ? `\\sqrt[${degree}]${base}` : `\\sqrt${base}`;
+    }
+
+    case "nary": {
+      const operator = NARY[prop(element, "naryPr", "chr") ?? "∫"] ?? "\\int";
+      const sub = prop(element, "naryPr", "subHide") === "1" ? "" : convertChildren(part(element, "sub")).trim();
+      const sup = prop(element, "naryPr", "supHide") === "1" ? "" : convertChildren(part(element, "sup")).trim();
+      return `${operator}${sub ? `_${group(sub)}` : ""}${sup ? `^${group(sup)}` : ""} ${convertChildren(part(element, "e"))}`;
+    }
+
+    case "d": {
+      const open = prop(element, "dPr", "begChr") ?? "(";
+      const close = prop(element, "dPr", "endChr") ?? ")";
+      const separator = prop(element, "dPr", "sepChr") ?? "|";
+      const items = childElements(element)
+        .filter((child) => localName(child.name) === "e")
+        .map(convertChildren);
+      const sep = separator === "|" ? " \\mid " : convertText(separator);
+      return `\\left${DELIMITERS[open] ?? open} ${items.join(sep)} \\right${DELIMITERS[close] ?? close}`;
+    }
+
+    case "func":
+      return `${convertChildren(part(element, "fName")).trim()} ${convertChildren(part(element, "e"))}`;
+
+    case "limLow":
+      // Not grouped, so operators like \lim keep their limits underneath.
+      return `${convertChildren(part(element, "e")).trim()}_${group(convertChildren(part(element, "lim")))}`;
+    case "limUpp":
+      return `\\overset${group(convertChildren(part(element, "lim")))}${group(convertChildren(part(element, "e")))}`;
+
+    case "acc": {
+      const accent = ACCENTS[prop(element, "accPr", "chr") ?? "̂"] ?? "\\hat";
+      return `${accent}${group(convertChildren(part(element, "e")))}`;
+    }
+
+    case "bar":
+      return `${prop(element, "barPr", "pos") === "bot" ? "\\underline" : "\\overline"}${group(convertChildren(part(element, "e")))}`;
+
+    case "groupChr": {
+      const chr = prop(element, "groupChrPr", "chr") ?? "⏟";
+      const body = group(convertChildren(part(element, "e")));
+      if (chr === "⏟") return `\\underbrace${body}`;
+      if (chr === "⏞") return `\\overbrace${body}`;
+      const position = prop(element, "groupChrPr", "pos");
+      return `${position === "top" ? "\\overset" : "\\underset"}${group(convertText(chr))}${body}`;
+    }
+
+    case "m": {
+      const rows = childElements(element)
+        .filter((child) => localName(child.name) === "mr")
+        .map((row) =>
+          childElements(row)
+            .filter((cell) => localName(cell.name) === "e")
+            .map(convertChildren)
+            .join(" & "),
+        );
+      return `\\begin{matrix} ${rows.join(" \\\\ ")} \\end{matrix}`;
+    }
+
+    case "eqArr": {
+      const rows = childElements(element)
+        .filter((child) => localName(child.name) === "e")
+        .map(convertChildren);
+      return `\\begin{aligned} ${rows.join(" \\\\ ")} \\end{aligned}`;
+    }
+
+    default:
+      // Property elements (fPr, ctrlPr, rPr, ...) carry no content.
+      return "";
+  }
+}
+
+// Converts an m:oMath or m:oMathPara element. Returns the LaTeX body
+// without delimiters; callers decide between inline and display math.
+export function ommlToLatex(element: XmlElement): string {
+  const name = localName(element.name);
+  if (name === "oMathPara") {
+    return childElements(element)
+      .filter((child) => localName(child.name) === "oMath")
+      .map((math) => convertElement(math).trim())
+      .join(" \\\\ ");
+  }
+  return convertElement(element).trim().replace(/\s+/g, " ");
+}
@@ -0,0 +1,459 @@
+// DOCX and PPTX extraction.
+//
+// Both formats are ZIP packages of XML parts. We rebuild a Markdown view of
+// the content: Word headings become "#" headings, numbered and bulleted
+// paragraphs become list items, tables become pipe tables, and each slide
+// becomes its own page titled after the slide title. Equations are
+// converted from OMML to LaTeX so they render through MathRenderer.
+
+import { ExtractedDocument, ExtractedPage } from "./types.ts";
+import { ZipArchive, resolveZipPath } from "./zip.ts";
+import { ommlToLatex } from "./omml.ts";
+import {
+  XmlElement,
+  childElements,
+  findAll,
+  findFirst,
+  firstChild,
+  parseXml,
+  textContent,
+} from "./xml.ts";
+
+async function readXml(archive: ZipArchive, path: string): Promise<XmlElement | undefined> {
+  const text = await archive.readText(path);
+  return text ? parseXml(text) : undefined;
+}
+
+async function readRelationships(archive: ZipArchive, partPath: string): Promise<Map<string, { type: string; target: string }>> {
+  const dir = partPath.slice(0, partPath.lastIndexOf("/") + 1);
+  const file = partPath.slice(dir.length);
+  const rels = await readXml(archive, `${dir}_rels/${file}.rels`);
+  const result = new Map<string, { type: string; target: string }>();
+
+  for (const rel of childElements(rels, "Relationship")) {
+    if (rel.attributes.TargetMode === "External") continue;
+    result.set(rel.attributes.Id, {
+      type: rel.attributes.Type ?? "",
+      target: resolveZipPath(dir, rel.attributes.Target ?? ""),
+    });
+  }
+  return result;
+}
+
+function attr(element: XmlElement | undefined, name: string): string | undefined {
+  return element?.attributes[name];
+}
+
+function inlineMath(element: XmlElement): string {
+  const latex = ommlToLatex(element);
+  return latex ? `$${latex}$` : "";
+}
+
+function displayMath(element: XmlElement): string {
+  const latex = ommlToLatex(element);
+  return latex ? `$$${latex}$$` : "";
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+interface WordStyles {
+  headingLevels: Map<string, number>;
+  listStyles: Map<string, { numId: string; ilvl: number }>;
+}
+
+interface WordNumbering {
+  // numId -> ilvl -> numFmt
+  formats: Map<string, Map<number, string>>;
+}
+
+async function loadStyles(archive: ZipArchive): Promise<WordStyles> {
+  const styles: WordStyles = { headingLevels: new Map(), listStyles: new Map() };
+  const root = await readXml(archive, "word/styles.xml");
+
+  for (const style of childElements(root, "w:style")) {
+    const id = attr(style, "w:styleId");
+    if (!id) continue;
+    const name = (attr(firstChild(style, "w:name"), "w:val") ?? "").toLowerCase();
+    const pPr = firstChild(style, "w:pPr");
+    const outline = attr(firstChild(pPr, "w:outlineLvl"), "w:val");
+
+    const heading = name.match(/^heading (\d)$/);
+    if (name === "title") styles.headingLevels.set(id, 1);
+    else if (heading) styles.headingLevels.set(id, parseInt(heading[1], 10));
+    else if (outline !== undefined && parseInt(outline, 10) < 9) styles.headingLevels.set(id, parseInt(outline, 10) + 1);
+
+    const numPr = firstChild(pPr, "w:numPr");
+    const numId = attr(firstChild(numPr, "w:numId"), "w:val");
+    if (numId) {
+      styles.listStyles.set(id, { numId, ilvl: parseInt(attr(firstChild(numPr, "w:ilvl"), "w:val") ?? "0", 10) });
+    }
+  }
+  return styles;
+}
+
+async function loadNumbering(archive: ZipArchive): Promise<WordNumbering> {
+  const numbering: WordNumbering = { formats: new Map() };
+  const root = await readXml(archive, "word/numbering.xml");
+  const abstracts = new Map<string, Map<number, string>>();
+
+  for (const abstract of childElements(root, "w:abstractNum")) {
+    const levels = new Map<number, string>();
+    for (const lvl of childElements(abstract, "w:lvl")) {
+      levels.set(parseInt(attr(lvl, "w:ilvl") ?? "0", 10), attr(firstChild(lvl, "w:numFmt"), "w:val") ?? "bullet");
+    }
+    abstracts.set(attr(abstract, "w:abstractNumId") ?? "", levels);
+  }
+  for (const num of childElements(root, "w:num")) {
+    const abstractId = attr(firstChild(num, "w:abstractNumId"), "w:val") ?? "";
+    numbering.formats.set(attr(num, "w:numId") ?? "", abstracts.get(abstractId) ?? new Map());
+  }
+  return numbering;
+}
+
+class DocxWriter {
+  private pages: string[][] = [[]];
+
+  constructor(private styles: WordStyles, private numbering: WordNumbering) {}
+
+  get document(): ExtractedDocument {
+    return {
+      pages: this.pages.map((blocks, index) => ({ number: index + 1, text: joinBlocks(blocks) })),
+    };
+  }
+
+  private pageBreak() {
+    this.pages.push([]);
+  }
+
+  private emit(block: string) {
+    if (block.trim()) this.pages[this.pages.length - 1].push(block);
+  }
+
+  writeBody(body: XmlElement) {
+    for (const child of childElements(body)) {
+      switch (child.name) {
+        case "w:p":
+          this.writeParagraph(child);
+          break;
+        case "w:tbl":
+          this.emit(this.table(child));
+          break;
+        case "w:sdt":
+          this.writeBody(firstChild(child, "w:sdtContent") ?? child);
+          break;
+        case "m:oMathPara":
+          this.emit(displayMath(child));
+          break;
+      }
+    }
+  }
+
+  private writeParagraph(paragraph: XmlElement) {
+    const pPr = firstChild(paragraph, "w:pPr");
+    const styleId = attr(firstChild(pPr, "w:pStyle"), "w:val") ?? "";
+
+    const breakBefore = firstChild(pPr, "w:pageBreakBefore");
+    if (breakBefore && attr(breakBefore, "w:val") !== "0" && attr(breakBefore, "w:val") !== "false") {
+      this.pageBreak();
+    }
+
+    // Word records where it last broke pages; splitting there lets us keep
+    // page numbers for provenance even though DOCX has no fixed layout.
+    let text = "";
+    for (const piece of this.runs(paragraph)) {
+      if (piece === PAGE_BREAK) {
+        if (text.trim()) this.emit(this.formatParagraph(text, pPr, styleId));
+        text = "";
+        this.pageBreak();
+      } else {
+        text += piece;
+      }
+    }
+    this.emit(this.formatParagraph(text, pPr, styleId));
+  }
+
+  private formatParagraph(text: string, pPr: XmlElement | undefined, styleId: string): string {
+    text = text.replace(/[ \t]+/g, " ").trim();
+    if (!text) return "";
+
+    const outline = attr(firstChild(pPr, "w:outlineLvl"), "w:val");
+    const level = this.styles.headingLevels.get(styleId) ?? (outline !== undefined ? parseInt(outline, 10) + 1 : 0);
+    if (level > 0 && level <= 6 && !text.startsWith("$$")) {
+      return `${"#".repeat(level)} ${text}`;
+    }
+
+    const numPr = firstChild(pPr, "w:numPr");
+    const list = numPr
+      ? {
+          numId: attr(firstChild(numPr, "w:numId"), "w:val") ?? "",
+          ilvl: parseInt(attr(firstChild(numPr, "w:ilvl"), "w:val") ?? "0", 10),
+        }
+      : this.styles.listStyles.get(styleId);
+    if (list && list.numId !== "0") {
+      const format = this.numbering.formats.get(list.numId)?.get(list.ilvl) ?? "bullet";
+      const marker = format === "bullet" || format === "none" ? "-" : "1.";
+      return `${LIST_ITEM}${"  ".repeat(list.ilvl)}${marker} ${text}`;
+    }
+    return text;
+  }
+
+  // Yields the paragraph's text in document order, including inline math
+  // and explicit page breaks.
+  private *runs(element: XmlElement): Generator<string> {
+    for (const child of childElements(element)) {
+      switch (child.name) {
+        case "w:t":
+          yield textContent(child);
+          break;
+        case "w:tab":
+          yield "\t";
+          break;
+        case "w:br":
+        case "w:cr":
+          if (attr(child, "w:type") === "page") yield PAGE_BREAK;
+          else yield "\n";
+          break;
+        case "w:lastRenderedPageBreak":
+          yield PAGE_BREAK;
+          break;
+        case "w:sym": {
+          const code = parseInt(attr(child, "w:char") ?? "", 16);
+          // Symbol-font private-use code points map back onto ASCII.
+          if (!isNaN(code)) yield String.fromCharCode(code >= 0xf000 ? code - 0xf000 : code);
+          break;
+        }
+        case "m:oMath":
+          yield inlineMath(child);
+          break;
+        case "m:oMathPara":
+          yield displayMath(child);
+          break;
+        case "w:del":
+        case "w:pPr":
+        case "w:rPr":
+        case "w:instrText":
+          break;
+        default:
+          // w:r, w:hyperlink, w:ins, w:smartTag, w:fldSimple, w:sdt, ...
+          yield* this.runs(child);
+      }
+    }
+  }
+
+  private table(table: XmlElement): string {
+    const rows = childElements(table, "w:tr").map((row) =>
+      childElements(row, "w:tc").map((cell) =>
+        childElements(cell, "w:p")
+          .map((p) => [...this.runs(p)].filter((piece) => piece !== PAGE_BREAK).join("").trim())
+          .filter(Boolean)
+          .join(" ")
+          .replace(/\|/g, "\\|"),
+      ),
+    );
+    return markdownTable(rows);
+  }
+}
+
+const PAGE_BREAK = "\u0000page-break\u0000";
+const LIST_ITEM = "\u0000list\u0000";
+
+// Paragraphs are separated by blank lines, but consecutive list items stay
+// together so Markdown renders them as one list.
+function joinBlocks(blocks: string[]): string {
+  let text = "";
+  blocks.forEach((block, index) => {
+    const isItem = block.startsWith(LIST_ITEM);
+    const previousIsItem = index > 0 && blocks[index - 1].startsWith(LIST_ITEM);
+    if (index > 0) text += isItem && previousIsItem ? "\n" : "\n\n";
+    text += isItem ? block.slice(LIST_ITEM.length) : block;
+  });
+  return text;
+}
+
+function markdownTable(rows: string[][]): string {
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim()));
+  if (nonEmpty.length === 0) return "";
+  const width = Math.max(...nonEmpty.map((row) => row.length));
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => row[i] ?? "").join(" | ")} |`;
+  return [line(nonEmpty[0]), `|${" --- |".repeat(width)}`, ...nonEmpty.slice(1).map(line)].join("\n");
+}
+
+export async function extractDocx(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const archive = ZipArchive.open(bytes);
+  const document = await readXml(archive, "word/document.xml");
+  if (!document) throw new Error("Not a Word document: word/document.xml is missing");
+
+  const writer = new DocxWriter(await loadStyles(archive), await loadNumbering(archive));
+  const body = firstChild(document, "w:body");
+  if (body) writer.writeBody(body);
+
+  // Drop the empty pages left by leading or trailing breaks, renumbering
+  // so page numbers stay contiguous.
+  const pages = writer.document.pages.filter((page) => page.text.trim());
+  return { pages: pages.map((page, index) => ({ ...page, number: index + 1 })) };
+}
+
+// ---------------------------------------------------------------------------
+// PPTX
+// ---------------------------------------------------------------------------
+
+const TITLE_PLACEHOLDERS = new Set(["title", "ctrTitle"]);
+const BULLETED_PLACEHOLDERS = new Set(["body", "obj", undefined]);
+
+interface SlideText {
+  title: string;
+  blocks: string[];
+}
+
+function drawingParagraph(paragraph: XmlElement, bulleted: boolean): string {
+  let text = "";
+  const walk = (element: XmlElement) => {
+    for (const child of childElements(element)) {
+      switch (child.name) {
+        case "a:t":
+          text += textContent(child);
+          break;
+        case "a:br":
+          text += "\n";
+          break;
+        case "m:oMathPara":
+          text += displayMath(child);
+          break;
+        case "m:oMath":
+          text += inlineMath(child);
+          break;
+        case "a:pPr":
+        case "a:rPr":
+        case "a:endParaRPr":
+          break;
+        case "mc:AlternateContent":
+          walk(firstChild(child, "mc:Choice") ?? child);
+          break;
+        default:
+          walk(child);
+      }
+    }
+  };
+  walk(paragraph);
+
+  text = text.replace(/[ \t]+/g, " ").trim();
+  if (!text) return "";
+
+  const pPr = firstChild(paragraph, "a:pPr");
+  const level = parseInt(attr(pPr, "lvl") ?? "0", 10);
+  const hasBullet = !firstChild(pPr, "a:buNone") && (bulleted || !!firstChild(pPr, "a:buChar") || !!firstChild(pPr, "a:buAutoNum"));
+  if (!hasBullet || text.startsWith("$$")) return text;
+  const marker = firstChild(pPr, "a:buAutoNum") ? "1." : "-";
+  return `${LIST_ITEM}${"  ".repeat(level)}${marker} ${text}`;
+}
+
+function textBody(body: XmlElement | undefined, bulleted: boolean): string[] {
+  return childElements(body, "a:p")
+    .map((paragraph) => drawingParagraph(paragraph, bulleted))
+    .filter(Boolean);
+}
+
+function collectShapes(tree: XmlElement, slide: SlideText) {
+  for (const shape of childElements(tree)) {
+    switch (shape.name) {
+      case "p:sp": {
+        const placeholder = findFirst(firstChild(shape, "p:nvSpPr"), "p:ph");
+        const type = placeholder ? attr(placeholder, "type") : null;
+        const body = firstChild(shape, "p:txBody");
+        if (type && TITLE_PLACEHOLDERS.has(type)) {
+          const title = textBody(body, false)
+            .map((line) => line.replace(LIST_ITEM, ""))
+            .join(" ")
+            .replace(/\s+/g, " ");
+          if (!slide.title) slide.title = title;
+          else slide.blocks.push(title);
+        } else {
+          const bulleted = placeholder !== undefined && BULLETED_PLACEHOLDERS.has(type ?? undefined);
+          slide.blocks.push(...textBody(body, bulleted));
+        }
+        break;
+      }
+      case "p:grpSp":
+        collectShapes(shape, slide);
+        break;
+      case "p:graphicFrame": {
+        const table = findFirst(shape, "a:tbl");
+        if (table) {
+          const rows = childElements(table, "a:tr").map((row) =>
+            childElements(row, "a:tc").map((cell) =>
+              textBody(firstChild(cell, "a:txBody"), false)
+                .map((line) => line.replace(LIST_ITEM, ""))
+                .join(" ")
+                .replace(/\|/g, "\\|"),
+            ),
+          );
+          slide.blocks.push(markdownTable(rows));
+        }
+        break;
+      }
+      case "mc:AlternateContent": {
+        // The Choice branch holds the real content (e.g. an equation); the
+        // Fallback is a picture of it for older clients.
+        const choice = firstChild(shape, "mc:Choice");
+        if (choice) collectShapes(choice, slide);
+        break;
+      }
+    }
+  }
+}
+
+async function slideOrder(archive: ZipArchive): Promise<string[]> {
+  const presentation = await readXml(archive, "ppt/presentation.xml");
+  const rels = await readRelationships(archive, "ppt/presentation.xml");
+  const ordered = findAll(firstChild(presentation, "p:sldIdLst"), "p:sldId")
+    .map((slide) => rels.get(attr(slide, "r:id") ?? "")?.target)
+    .filter((path): path is string => !!path && archive.has(path));
+  if (ordered.length > 0) return ordered;
+
+  // Fall back to the file names when presentation.xml is unusable.
+  return archive
+    .names()
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.match(/\d+/)![0], 10) - parseInt(b.match(/\d+/)![0], 10));
+}
+
+async function speakerNotes(archive: ZipArchive, slidePath: string): Promise<string[]> {
+  const rels = await readRelationships(archive, slidePath);
+  const notes = [...rels.values()].find((rel) => rel.type.endsWith("/notesSlide"));
+  if (!notes) return [];
+
+  const root = await readXml(archive, notes.target);
+  const blocks: string[] = [];
+  for (const shape of findAll(root, "p:sp")) {
+    const placeholder = findFirst(firstChild(shape, "p:nvSpPr"), "p:ph");
+    if (attr(placeholder, "type") !== "body") continue;
+    blocks.push(...textBody(firstChild(shape, "p:txBody"), false));
+  }
+  return blocks;
+}
+
+export async function extractPptx(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const archive = ZipArchive.open(bytes);
+  const slides = await slideOrder(archive);
+  if (slides.length === 0) throw new Error("Not a PowerPoint presentation: no slides found");
+
+  const pages: ExtractedPage[] = [];
+  for (let index = 0; index < slides.length; index++) {
+    const root = await readXml(archive, slides[index]);
+    const tree = findFirst(root, "p:spTree");
+    const slide: SlideText = { title: "", blocks: [] };
+    if (tree) collectShapes(tree, slide);
+
+    const notes = await speakerNotes(archive, slides[index]);
+    const blocks = [
+      `## ${slide.title || `Slide ${index + 1}`}`,
+      ...slide.blocks,
+      ...(notes.length > 0 ? ["**Speaker notes:**", ...notes] : []),
+    ];
+    pages.push({ number: index + 1, text: joinBlocks(blocks) });
+  }
+  return { pages };
+}
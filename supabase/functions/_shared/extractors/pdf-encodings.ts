@@ -0,0 +1,116 @@
+// Single-byte encodings and glyph names used by simple (non-CID) PDF fonts.
+
+function singleByteTable(label: string): string[] {
+  const decoder = new TextDecoder(label);
+  const table: string[] = [];
+  for (let code = 0; code < 256; code++) {
+    table.push(code < 32 ? "" : decoder.decode(new Uint8Array([code])));
+  }
+  return table;
+}
+
+export const WIN_ANSI_ENCODING = singleByteTable("windows-1252");
+export const MAC_ROMAN_ENCODING = singleByteTable("macintosh");
+
+// StandardEncoding only differs from WinAnsi in the quote glyphs within
+// the printable ASCII range, which is all that matters for lecture text.
+export const STANDARD_ENCODING = (() => {
+  const table = [...WIN_ANSI_ENCODING];
+  table[0x27] = "’";
+  table[0x60] = "‘";
+  return table;
+})();
+
+// The Symbol font places Greek letters on the Latin keys.
+export const SYMBOL_ENCODING = (() => {
+  const table = [...WIN_ANSI_ENCODING];
+  const upper = "ΑΒΧΔΕΦΓΗΙϑΚΛΜΝΟΠΘΡΣΤΥςΩΞΨΖ";
+  const lower = "αβχδεφγηιϕκλμνοπθρστυϖωξψζ";
+  for (let i = 0; i < 26; i++) {
+    table[0x41 + i] = upper[i];
+    table[0x61 + i] = lower[i];
+  }
+  const extras: Record<number, string> = {
+    0x2d: "−", 0x22: "∀", 0x24: "∃", 0x27: "∋", 0x2a: "∗", 0x40: "≅", 0x5e: "⊥",
+    0xa1: "ϒ", 0xa2: "′", 0xa3: "≤", 0xa5: "∞", 0xab: "↔", 0xac: "←", 0xad: "↑",
+    0xae: "→", 0xaf: "↓", 0xb0: "°", 0xb1: "±", 0xb2: "″", 0xb3: "≥", 0xb4: "×",
+    0xb5: "∝", 0xb6: "∂", 0xb7: "•", 0xb8: "÷", 0xb9: "≠", 0xba: "≡", 0xbb: "≈",
+    0xbc: "…", 0xc4: "⊗", 0xc5: "⊕", 0xc6: "∅", 0xc7: "∩", 0xc8: "∪", 0xc9: "⊃",
+    0xca: "⊇", 0xcb: "⊄", 0xcc: "⊂", 0xcd: "⊆", 0xce: "∈", 0xcf: "∉", 0xd0: "∠",
+    0xd1: "∇", 0xd5: "∏", 0xd6: "√", 0xd7: "⋅", 0xd8: "¬", 0xd9: "∧", 0xda: "∨",
+    0xdb: "⇔", 0xdc: "⇐", 0xdd: "⇑", 0xde: "⇒", 0xdf: "⇓", 0xe1: "⟨", 0xe5: "∑",
+    0xf1: "⟩", 0xf2: "∫",
+  };
+  for (const [code, char] of Object.entries(extras)) {
+    table[Number(code)] = char;
+  }
+  return table;
+})();
+
+export function baseEncodingByName(name: string | undefined, fontName = ""): string[] {
+  switch (name) {
+    case "WinAnsiEncoding":
+      return WIN_ANSI_ENCODING;
+    case "MacRomanEncoding":
+    case "MacExpertEncoding":
+      return MAC_ROMAN_ENCODING;
+    case "StandardEncoding":
+      return STANDARD_ENCODING;
+  }
+  return /Symbol/i.test(fontName) ? SYMBOL_ENCODING : STANDARD_ENCODING;
+}
+
+// Glyph names that appear in /Differences arrays. Single letters and
+// digits are handled by glyphNameToUnicode directly.
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ", exclam: "!", quotedbl: "\"", numbersign: "#", dollar: "$", percent: "%",
+  ampersand: "&", quotesingle: "'", quoteright: "’", quoteleft: "‘",
+  parenleft: "(", parenright: ")", asterisk: "*", plus: "+", comma: ",", hyphen: "-",
+  period: ".", slash: "/", colon: ":", semicolon: ";", less: "<", equal: "=",
+  greater: ">", question: "?", at: "@", bracketleft: "[", backslash: "\\",
+  bracketright: "]", asciicircum: "^", underscore: "_", grave: "`", braceleft: "{",
+  bar: "|", braceright: "}", asciitilde: "~", bullet: "•", endash: "–", emdash: "—",
+  quotedblleft: "“", quotedblright: "”", quotesinglbase: "‚", quotedblbase: "„",
+  ellipsis: "…", dagger: "†", daggerdbl: "‡", degree: "°", plusminus: "±", multiply: "×",
+  divide: "÷", minus: "−", periodcentered: "·", section: "§", paragraph: "¶",
+  copyright: "©", registered: "®", trademark: "™", prime: "′", second: "″",
+  fi: "fi", fl: "fl", ff: "ff", ffi: "ffi", ffl: "ffl", dotlessi: "ı", germandbls: "ß",
+  zero: "0", one: "1", two: "2", three: "3", four: "4", five: "5", six: "6",
+  seven: "7", eight: "8", nine: "9", onehalf: "½", onequarter: "¼", threequarters: "¾",
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ε", epsilon1: "ϵ", zeta: "ζ",
+  eta: "η", theta: "θ", theta1: "ϑ", iota: "ι", kappa: "κ", lambda: "λ", mu: "μ", nu: "ν",
+  xi: "ξ", omicron: "ο", pi: "π", pi1: "ϖ", rho: "ρ", sigma: "σ", sigma1: "ς", tau: "τ",
+  upsilon: "υ", phi: "φ", phi1: "ϕ", chi: "χ", psi: "ψ", omega: "ω",
+  Alpha: "Α", Beta: "Β", Gamma: "Γ", Delta: "Δ", Epsilon: "Ε", Zeta: "Ζ", Eta: "Η",
+  Theta: "Θ", Iota: "Ι", Kappa: "Κ", Lambda: "Λ", Mu: "Μ", Nu: "Ν", Xi: "Ξ",
+  Omicron: "Ο", Pi: "Π", Rho: "Ρ", Sigma: "Σ", Tau: "Τ", Upsilon: "Υ", Phi: "Φ",
+  Chi: "Χ", Psi: "Ψ", Omega: "Ω",
+  summation: "∑", product: "∏", integral: "∫", infinity: "∞", partialdiff: "∂",
+  gradient: "∇", nabla: "∇", radical: "√", notequal: "≠", lessequal: "≤",
+  greaterequal: "≥", approxequal: "≈", equivalence: "≡", proportional: "∝",
+  element: "∈", notelement: "∉", intersection: "∩", union: "∪", propersubset: "⊂",
+  propersuperset: "⊃", reflexsubset: "⊆", reflexsuperset: "⊇", emptyset: "∅",
+  universal: "∀", existential: "∃", logicalnot: "¬", logicaland: "∧", logicalor: "∨",
+  arrowright: "→", arrowleft: "←", arrowup: "↑", arrowdown: "↓", arrowboth: "↔",
+  arrowdblright: "⇒", arrowdblleft: "⇐", arrowdblboth: "⇔", angle: "∠",
+  perpendicular: "⊥", dotmath: "⋅", circleplus: "⊕", circlemultiply: "⊗",
+  angleleft: "⟨", angleright: "⟩", similar: "∼", congruent: "≅",
+};
+
+export function glyphNameToUnicode(name: string): string | undefined {
+  if (name in GLYPH_NAMES) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+
+  // uniXXXX[XXXX...] and uXXXX[XX] forms from the Adobe glyph naming rules.
+  const uni = name.match(/^uni((?:[0-9A-F]{4})+)$/);
+  if (uni) {
+    return uni[1].match(/.{4}/g)!.map((hex) => String.fromCharCode(parseInt(hex, 16))).join("");
+  }
+  const u = name.match(/^u([0-9A-F]{4,6})$/);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+
+  // Suffixed variants such as "a.sc" or "one.oldstyle".
+  const base = name.split(/[._]/)[0];
+  if (base && base !== name) return glyphNameToUnicode(base);
+  return undefined;
+}
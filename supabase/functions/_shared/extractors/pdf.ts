@@ -0,0 +1,1311 @@
+// PDF text extraction.
+//
+// This is deliberately not a full PDF renderer: it parses the object graph,
+// walks the page tree, decodes content streams and replays just the text
+// operators, mapping glyph codes back to Unicode through ToUnicode CMaps or
+// the font's simple encoding. Layout is reconstructed from the text matrix
+// well enough to recover lines, word gaps and paragraphs.
+//
+// Pages without text that show an image (scans, photographed pages) are
+// read by OCR from the largest image on the page.
+
+import { ExtractDocumentOptions, ExtractedDocument, ExtractedPage } from "./types.ts";
+import { concatBytes, inflateLenient } from "./inflate.ts";
+import { FileValidationError, MAX_OCR_PAGES, MAX_PAGES } from "./validation.ts";
+import { decodeJpeg, RasterImage, rasterFromSamples } from "./raster.ts";
+import { recognizeText } from "./ocr.ts";
+import { baseEncodingByName, glyphNameToUnicode } from "./pdf-encodings.ts";
+
+export class PdfName {
+  constructor(readonly name: string) {}
+}
+
+export class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+export class PdfStream {
+  constructor(readonly dict: PdfDict, readonly data: Uint8Array) {}
+}
+
+export type PdfDict = Map<string, PdfValue>;
+
+export type PdfValue =
+  | null
+  | boolean
+  | number
+  | Uint8Array
+  | PdfName
+  | PdfRef
+  | PdfStream
+  | PdfDict
+  | PdfValue[];
+
+// ---------------------------------------------------------------------------
+// Lexer / parser
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "string"; value: Uint8Array }
+  | { type: "keyword"; value: string }
+  | { type: "delimiter"; value: string };
+
+const isWhitespace = (c: number) => c === 0 || c === 9 || c === 10 || c === 12 || c === 13 || c === 32;
+const isDelimiter = (c: number) =>
+  c === 40 || c === 41 || c === 60 || c === 62 || c === 91 || c === 93 ||
+  c === 123 || c === 125 || c === 47 || c === 37;
+const isRegular = (c: number) => !isWhitespace(c) && !isDelimiter(c);
+const hexValue = (c: number) =>
+  c >= 48 && c <= 57 ? c - 48 : c >= 65 && c <= 70 ? c - 55 : c >= 97 && c <= 102 ? c - 87 : -1;
+
+class Lexer {
+  constructor(readonly buf: Uint8Array, public pos = 0) {}
+
+  skipWhitespace() {
+    const buf = this.buf;
+    while (this.pos < buf.length) {
+      const c = buf[this.pos];
+      if (isWhitespace(c)) {
+        this.pos++;
+      } else if (c === 37) {
+        while (this.pos < buf.length && buf[this.pos] !== 10 && buf[this.pos] !== 13) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  next(): Token | null {
+    this.skipWhitespace();
+    const buf = this.buf;
+    if (this.pos >= buf.length) return null;
+    const c = buf[this.pos];
+
+    if (c === 40) return { type: "string", value: this.readLiteralString() };
+    if (c === 60) {
+      if (buf[this.pos + 1] === 60) {
+        this.pos += 2;
+        return { type: "delimiter", value: "<<" };
+      }
+      return { type: "string", value: this.readHexString() };
+    }
+    if (c === 62) {
+      this.pos += buf[this.pos + 1] === 62 ? 2 : 1;
+      return { type: "delimiter", value: ">>" };
+    }
+    if (c === 91 || c === 93 || c === 123 || c === 125) {
+      this.pos++;
+      return { type: "delimiter", value: String.fromCharCode(c) };
+    }
+    if (c === 47) {
+      this.pos++;
+      return { type: "name", value: this.readName() };
+    }
+    if (c === 41) {
+      // Stray closing parenthesis; skip it.
+      this.pos++;
+      return this.next();
+    }
+
+    const start = this.pos;
+    while (this.pos < buf.length && isRegular(buf[this.pos])) this.pos++;
+    const word = latin1(buf.subarray(start, this.pos));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: "number", value: parseFloat(word) };
+    }
+    return { type: "keyword", value: word };
+  }
+
+  private readName(): string {
+    const buf = this.buf;
+    let name = "";
+    while (this.pos < buf.length && isRegular(buf[this.pos])) {
+      const c = buf[this.pos++];
+      if (c === 35 && hexValue(buf[this.pos]) >= 0 && hexValue(buf[this.pos + 1]) >= 0) {
+        name += String.fromCharCode(hexValue(buf[this.pos]) * 16 + hexValue(buf[this.pos + 1]));
+        this.pos += 2;
+      } else {
+        name += String.fromCharCode(c);
+      }
+    }
+    return name;
+  }
+
+  private readLiteralString(): Uint8Array {
+    const buf = this.buf;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++;
+
+    while (this.pos < buf.length) {
+      let c = buf[this.pos++];
+      if (c === 40) {
+        depth++;
+      } else if (c === 41) {
+        if (--depth === 0) break;
+      } else if (c === 92) {
+        c = buf[this.pos++];
+        switch (c) {
+          case 110: out.push(10); continue;
+          case 114: out.push(13); continue;
+          case 116: out.push(9); continue;
+          case 98: out.push(8); continue;
+          case 102: out.push(12); continue;
+          case 13:
+            if (buf[this.pos] === 10) this.pos++;
+            continue;
+          case 10:
+            continue;
+        }
+        if (c >= 48 && c <= 55) {
+          let octal = c - 48;
+          for (let i = 0; i < 2 && buf[this.pos] >= 48 && buf[this.pos] <= 55; i++) {
+            octal = octal * 8 + (buf[this.pos++] - 48);
+          }
+          out.push(octal & 0xff);
+          continue;
+        }
+      }
+      out.push(c);
+    }
+    return new Uint8Array(out);
+  }
+
+  private readHexString(): Uint8Array {
+    const buf = this.buf;
+    const out: number[] = [];
+    let high = -1;
+    this.pos++;
+
+    while (this.pos < buf.length) {
+      const c = buf[this.pos++];
+      if (c === 62) break;
+      const value = hexValue(c);
+      if (value < 0) continue;
+      if (high < 0) {
+        high = value;
+      } else {
+        out.push(high * 16 + value);
+        high = -1;
+      }
+    }
+    if (high >= 0) out.push(high * 16);
+    return new Uint8Array(out);
+  }
+}
+
+class Parser {
+  constructor(readonly lexer: Lexer) {}
+
+  // Parses one value. Bare keywords other than true/false/null come back
+  // as `{ keyword }` so the content stream interpreter can treat them as
+  // operators.
+  parse(token: Token | null = this.lexer.next()): PdfValue | { keyword: string } | undefined {
+    if (!token) return undefined;
+
+    switch (token.type) {
+      case "number": {
+        // Look ahead for an indirect reference: "num gen R".
+        if (Number.isInteger(token.value) && token.value >= 0) {
+          const saved = this.lexer.pos;
+          const gen = this.lexer.next();
+          if (gen?.type === "number" && Number.isInteger(gen.value)) {
+            const r = this.lexer.next();
+            if (r?.type === "keyword" && r.value === "R") {
+              return new PdfRef(token.value, gen.value);
+            }
+          }
+          this.lexer.pos = saved;
+        }
+        return token.value;
+      }
+      case "name":
+        return new PdfName(token.value);
+      case "string":
+        return token.value;
+      case "delimiter":
+        if (token.value === "[") return this.parseArray();
+        if (token.value === "<<") return this.parseDict();
+        return { keyword: token.value };
+      case "keyword":
+        if (token.value === "true") return true;
+        if (token.value === "false") return false;
+        if (token.value === "null") return null;
+        return { keyword: token.value };
+    }
+  }
+
+  parseArray(): PdfValue[] {
+    const items: PdfValue[] = [];
+    while (true) {
+      const token = this.lexer.next();
+      if (!token || (token.type === "delimiter" && token.value === "]")) break;
+      const value = this.parse(token);
+      if (value !== undefined && !isKeyword(value)) items.push(value);
+    }
+    return items;
+  }
+
+  parseDict(): PdfDict {
+    const dict: PdfDict = new Map();
+    while (true) {
+      const token = this.lexer.next();
+      if (!token || (token.type === "delimiter" && token.value === ">>")) break;
+      if (token.type !== "name") continue;
+      const value = this.parse();
+      if (value === undefined) break;
+      if (!isKeyword(value)) dict.set(token.value, value);
+    }
+    return dict;
+  }
+}
+
+function isKeyword(value: unknown): value is { keyword: string } {
+  return typeof value === "object" && value !== null && "keyword" in value && !(value instanceof Map);
+}
+
+function latin1(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return result;
+}
+
+const isDict = (value: PdfValue | undefined): value is PdfDict => value instanceof Map;
+const nameOf = (value: PdfValue | undefined) => (value instanceof PdfName ? value.name : undefined);
+
+// ---------------------------------------------------------------------------
+// Document
+// ---------------------------------------------------------------------------
+
+class PdfDocument {
+  private objects = new Map<number, PdfValue>();
+  private trailers: PdfDict[] = [];
+
+  constructor(private buf: Uint8Array) {}
+
+  async load() {
+    this.scanObjects();
+    await this.expandObjectStreams();
+  }
+
+  get isEncrypted(): boolean {
+    return this.trailers.some((trailer) => trailer.has("Encrypt"));
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    while (value instanceof PdfRef && depth++ < 32) {
+      value = this.objects.get(value.num);
+    }
+    return value instanceof PdfRef ? undefined : value;
+  }
+
+  get(dict: PdfDict | PdfStream | undefined, key: string): PdfValue | undefined {
+    if (!dict) return undefined;
+    const map = dict instanceof PdfStream ? dict.dict : dict;
+    return this.resolve(map.get(key));
+  }
+
+  getDict(dict: PdfDict | PdfStream | undefined, key: string): PdfDict | undefined {
+    const value = this.get(dict, key);
+    if (value instanceof PdfStream) return value.dict;
+    return isDict(value) ? value : undefined;
+  }
+
+  // Objects are located by scanning for "n g obj" headers instead of
+  // trusting the xref table, which is frequently broken in exported slides.
+  private scanObjects() {
+    const text = latin1(this.buf);
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(text))) {
+      const num = parseInt(match[1], 10);
+      const lexer = new Lexer(this.buf, match.index + match[0].length);
+      const parser = new Parser(lexer);
+      let value = parser.parse();
+      if (value === undefined || isKeyword(value)) continue;
+
+      if (isDict(value)) {
+        const saved = lexer.pos;
+        const next = lexer.next();
+        if (next?.type === "keyword" && next.value === "stream") {
+          const data = this.readStreamData(text, lexer.pos, value);
+          value = new PdfStream(value, data.bytes);
+          header.lastIndex = data.end;
+          if (nameOf(value.dict.get("Type")) === "XRef") this.trailers.push(value.dict);
+        } else {
+          lexer.pos = saved;
+        }
+      }
+      this.objects.set(num, value);
+    }
+
+    const trailer = /trailer\s*<</g;
+    while ((match = trailer.exec(text))) {
+      const lexer = new Lexer(this.buf, match.index + "trailer".length);
+      const value = new Parser(lexer).parse();
+      if (isDict(value as PdfValue)) this.trailers.push(value as PdfDict);
+    }
+  }
+
+  private readStreamData(text: string, pos: number, dict: PdfDict) {
+    // The keyword is followed by CRLF or LF before the data begins.
+    if (this.buf[pos] === 13) pos++;
+    if (this.buf[pos] === 10) pos++;
+
+    const length = dict.get("Length");
+    if (typeof length === "number" && length >= 0) {
+      const after = text.slice(pos + length, pos + length + 32);
+      if (/^\s*endstream/.test(after)) {
+        return { bytes: this.buf.subarray(pos, pos + length), end: pos + length };
+      }
+    }
+
+    let end = text.indexOf("endstream", pos);
+    if (end < 0) end = this.buf.length;
+    let dataEnd = end;
+    if (this.buf[dataEnd - 1] === 10) dataEnd--;
+    if (this.buf[dataEnd - 1] === 13) dataEnd--;
+    return { bytes: this.buf.subarray(pos, Math.max(pos, dataEnd)), end };
+  }
+
+  // PDF 1.5+ packs most small objects (including pages and fonts) into
+  // compressed object streams.
+  private async expandObjectStreams() {
+    const streams = [...this.objects.values()].filter(
+      (value): value is PdfStream => value instanceof PdfStream && nameOf(value.dict.get("Type")) === "ObjStm",
+    );
+
+    for (const stream of streams) {
+      let data: Uint8Array;
+      try {
+        data = await this.decodeStream(stream);
+      } catch (error) {
+        console.error("Failed to decode object stream:", error);
+        continue;
+      }
+
+      const count = this.get(stream, "N");
+      const first = this.get(stream, "First");
+      if (typeof count !== "number" || typeof first !== "number") continue;
+
+      const lexer = new Lexer(data);
+      const offsets: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const num = lexer.next();
+        const offset = lexer.next();
+        if (num?.type !== "number" || offset?.type !== "number") break;
+        offsets.push([num.value, offset.value]);
+      }
+
+      for (const [num, offset] of offsets) {
+        if (this.objects.has(num)) continue;
+        const value = new Parser(new Lexer(data, first + offset)).parse();
+        if (value !== undefined && !isKeyword(value)) this.objects.set(num, value);
+      }
+    }
+  }
+
+  async decodeStream(stream: PdfStream): Promise<Uint8Array> {
+    const { data, imageFilter } = await this.applyFilters(stream);
+    // Image codecs (DCT, JPX, CCITT...) carry no text.
+    if (imageFilter) throw new Error(`Unsupported stream filter: ${imageFilter}`);
+    return data;
+  }
+
+  // Undoes the general-purpose filters of a stream. Decoding stops at an
+  // image codec, which is returned with the data it still applies to.
+  async applyFilters(stream: PdfStream): Promise<{ data: Uint8Array; imageFilter?: string }> {
+    const filterValue = this.get(stream, "Filter");
+    const paramsValue = this.get(stream, "DecodeParms") ?? this.get(stream, "DP");
+    const filters = Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : [];
+    const params = Array.isArray(paramsValue) ? paramsValue : [paramsValue];
+
+    let data = stream.data;
+    for (let i = 0; i < filters.length; i++) {
+      const filter = nameOf(this.resolve(filters[i]));
+      const param = this.resolve(params[i]);
+      const decodeParams = isDict(param) ? param : undefined;
+
+      switch (filter) {
+        case "FlateDecode":
+        case "Fl":
+          data = applyPredictor(await inflateLenient(data), decodeParams);
+          break;
+        case "LZWDecode":
+        case "LZW":
+          data = applyPredictor(lzwDecode(data), decodeParams);
+          break;
+        case "ASCIIHexDecode":
+        case "AHx":
+          data = asciiHexDecode(data);
+          break;
+        case "ASCII85Decode":
+        case "A85":
+          data = ascii85Decode(data);
+          break;
+        default:
+          return { data, imageFilter: filter ?? "unknown" };
+      }
+    }
+    return { data };
+  }
+
+  getCatalog(): PdfDict | undefined {
+    for (let i = this.trailers.length - 1; i >= 0; i--) {
+      const root = this.resolve(this.trailers[i].get("Root"));
+      if (isDict(root)) return root;
+    }
+    for (const value of this.objects.values()) {
+      if (isDict(value) && nameOf(value.get("Type")) === "Catalog") return value;
+    }
+    return undefined;
+  }
+
+  getPages(): Array<{ page: PdfDict; resources: PdfDict | undefined }> {
+    const pages: Array<{ page: PdfDict; resources: PdfDict | undefined }> = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfValue | undefined, inherited: PdfDict | undefined) => {
+      if (!isDict(node) || visited.has(node)) return;
+      visited.add(node);
+
+      const resources = this.getDict(node, "Resources") ?? inherited;
+      const kids = this.get(node, "Kids");
+      if (Array.isArray(kids) && nameOf(node.get("Type")) !== "Page") {
+        for (const kid of kids) walk(this.resolve(kid), resources);
+      } else {
+        pages.push({ page: node, resources });
+      }
+    };
+
+    walk(this.get(this.getCatalog(), "Pages"), undefined);
+
+    // Fall back to every page object in file order when the tree is broken.
+    if (pages.length === 0) {
+      const numbers = [...this.objects.keys()].sort((a, b) => a - b);
+      for (const num of numbers) {
+        const value = this.objects.get(num);
+        if (isDict(value) && nameOf(value.get("Type")) === "Page") {
+          pages.push({ page: value, resources: this.getDict(value, "Resources") });
+        }
+      }
+    }
+    return pages;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Stream filters
+// ---------------------------------------------------------------------------
+
+function applyPredictor(data: Uint8Array, params: PdfDict | undefined): Uint8Array {
+  const predictor = params?.get("Predictor");
+  if (typeof predictor !== "number" || predictor < 10) return data;
+
+  const colors = (params!.get("Colors") as number) || 1;
+  const bits = (params!.get("BitsPerComponent") as number) || 8;
+  const columns = (params!.get("Columns") as number) || 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((colors * bits * columns) / 8);
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  let previous = new Uint8Array(rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowLength + 1)];
+    const line = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+    const current = out.subarray(row * rowLength, (row + 1) * rowLength);
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      let value = line[i];
+      switch (type) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += Math.floor((left + up) / 2); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+          value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+      }
+      current[i] = value & 0xff;
+    }
+    previous = current;
+  }
+  return out;
+}
+
+function asciiHexDecode(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let high = -1;
+  for (const c of data) {
+    if (c === 62) break;
+    const value = hexValue(c);
+    if (value < 0) continue;
+    if (high < 0) {
+      high = value;
+    } else {
+      out.push(high * 16 + value);
+      high = -1;
+    }
+  }
+  if (high >= 0) out.push(high * 16);
+  return new Uint8Array(out);
+}
+
+function ascii85Decode(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  const group: number[] = [];
+  let i = 0;
+  if (data[0] === 60 && data[1] === 126) i = 2;
+
+  for (; i < data.length; i++) {
+    const c = data[i];
+    if (c === 126) break;
+    if (isWhitespace(c)) continue;
+    if (c === 122 && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(c - 33);
+    if (group.length === 5) {
+      let value = 0;
+      for (const digit of group) value = value * 85 + digit;
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group.length = 0;
+    }
+  }
+
+  if (group.length > 1) {
+    const size = group.length;
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    out.push(...bytes.slice(0, size - 1));
+  }
+  return new Uint8Array(out);
+}
+
+function lzwDecode(data: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let dictionary: number[][] = [];
+  const reset = () => {
+    dictionary = [];
+    for (let i = 0; i < 256; i++) dictionary.push([i]);
+    dictionary.push([], []);
+  };
+  reset();
+
+  let codeLength = 9;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let previous: number[] | null = null;
+
+  for (let i = 0; i < data.length; i++) {
+    bitBuffer = (bitBuffer << 8) | data[i];
+    bitCount += 8;
+
+    while (bitCount >= codeLength) {
+      const code = (bitBuffer >>> (bitCount - codeLength)) & ((1 << codeLength) - 1);
+      bitCount -= codeLength;
+
+      if (code === 256) {
+        reset();
+        codeLength = 9;
+        previous = null;
+        continue;
+      }
+      if (code === 257) return new Uint8Array(out);
+
+      let entry: number[];
+      if (code < dictionary.length) {
+        entry = dictionary[code];
+      } else if (previous) {
+        entry = [...previous, previous[0]];
+      } else {
+        return new Uint8Array(out);
+      }
+
+      out.push(...entry);
+      if (previous) dictionary.push([...previous, entry[0]]);
+      previous = entry;
+
+      if (dictionary.length + 1 >= 1 << codeLength && codeLength < 12) codeLength++;
+    }
+  }
+  return new Uint8Array(out);
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+interface CodespaceRange {
+  length: number;
+  low: number;
+  high: number;
+}
+
+interface PdfFont {
+  // Splits a shown string into glyph codes and maps each to text.
+  decode(bytes: Uint8Array): Array<{ text: string; width: number; isSpace: boolean }>;
+}
+
+interface CMap {
+  codespaces: CodespaceRange[];
+  mappings: Map<number, string>[];
+}
+
+function parseCMap(data: Uint8Array): CMap {
+  const cmap: CMap = { codespaces: [], mappings: [] };
+  const lexer = new Lexer(data);
+  const parser = new Parser(lexer);
+  const operands: PdfValue[] = [];
+
+  const codeOf = (bytes: Uint8Array) => bytes.reduce((code, byte) => code * 256 + byte, 0);
+  const utf16 = (bytes: Uint8Array) => {
+    let text = "";
+    for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    if (bytes.length % 2 === 1) text += String.fromCharCode(bytes[bytes.length - 1]);
+    return text;
+  };
+  const map = (length: number, code: number, text: string) => {
+    (cmap.mappings[length] ??= new Map()).set(code, text);
+  };
+
+  while (true) {
+    const value = parser.parse();
+    if (value === undefined) break;
+    if (!isKeyword(value)) {
+      operands.push(value);
+      continue;
+    }
+
+    switch (value.keyword) {
+      case "endcodespacerange":
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const low = operands[i], high = operands[i + 1];
+          if (low instanceof Uint8Array && high instanceof Uint8Array) {
+            cmap.codespaces.push({ length: low.length, low: codeOf(low), high: codeOf(high) });
+          }
+        }
+        break;
+      case "endbfchar":
+        for (let i = 0; i + 1 < operands.length; i += 2) {
+          const src = operands[i], dst = operands[i + 1];
+          if (src instanceof Uint8Array && dst instanceof Uint8Array) map(src.length, codeOf(src), utf16(dst));
+          else if (src instanceof Uint8Array && dst instanceof PdfName) {
+            map(src.length, codeOf(src), glyphNameToUnicode(dst.name) ?? "");
+          }
+        }
+        break;
+      case "endbfrange":
+        for (let i = 0; i + 2 < operands.length; i += 3) {
+          const low = operands[i], high = operands[i + 1], dst = operands[i + 2];
+          if (!(low instanceof Uint8Array) || !(high instanceof Uint8Array)) continue;
+          const start = codeOf(low);
+          const end = Math.min(codeOf(high), start + 0xffff);
+          for (let code = start; code <= end; code++) {
+            if (Array.isArray(dst)) {
+              const item = dst[code - start];
+              if (item instanceof Uint8Array) map(low.length, code, utf16(item));
+            } else if (dst instanceof Uint8Array) {
+              const base = utf16(dst);
+              const last = base.charCodeAt(base.length - 1) + (code - start);
+              map(low.length, code, base.slice(0, -1) + String.fromCharCode(last));
+            }
+          }
+        }
+        break;
+    }
+    operands.length = 0;
+  }
+  return cmap;
+}
+
+async function loadFont(doc: PdfDocument, fontDict: PdfDict): Promise<PdfFont> {
+  const subtype = nameOf(doc.get(fontDict, "Subtype"));
+  const baseFont = nameOf(doc.get(fontDict, "BaseFont")) ?? "";
+
+  let toUnicode: CMap | undefined;
+  const toUnicodeStream = doc.get(fontDict, "ToUnicode");
+  if (toUnicodeStream instanceof PdfStream) {
+    try {
+      toUnicode = parseCMap(await doc.decodeStream(toUnicodeStream));
+    } catch (error) {
+      console.error("Failed to read ToUnicode CMap:", error);
+    }
+  }
+
+  if (subtype === "Type0") {
+    const descendants = doc.get(fontDict, "DescendantFonts");
+    const descendant = Array.isArray(descendants) ? doc.resolve(descendants[0]) : undefined;
+    const widths = isDict(descendant) ? cidWidths(doc, descendant) : { widths: new Map<number, number>(), fallback: 1000 };
+
+    // Embedded encoding CMaps also declare the code space, which tells us
+    // how many bytes make up each code.
+    let codespaces = toUnicode?.codespaces ?? [];
+    const encoding = doc.get(fontDict, "Encoding");
+    if (encoding instanceof PdfStream) {
+      try {
+        codespaces = parseCMap(await doc.decodeStream(encoding)).codespaces;
+      } catch {
+        // Keep the ToUnicode code space.
+      }
+    }
+
+    return {
+      decode(bytes) {
+        const glyphs = [];
+        let i = 0;
+        while (i < bytes.length) {
+          const length = codeLengthAt(bytes, i, codespaces, 2);
+          let code = 0;
+          for (let j = 0; j < length; j++) code = code * 256 + (bytes[i + j] ?? 0);
+          i += length;
+          const text = toUnicode?.mappings[length]?.get(code) ?? "";
+          glyphs.push({
+            text,
+            width: (widths.widths.get(code) ?? widths.fallback) / 1000,
+            isSpace: length === 1 && code === 32,
+          });
+        }
+        return glyphs;
+      },
+    };
+  }
+
+  // Simple fonts: one byte per code, with an optional /Differences overlay.
+  const encodingValue = doc.get(fontDict, "Encoding");
+  const encodingDict = isDict(encodingValue) ? encodingValue : undefined;
+  const table = [...baseEncodingByName(nameOf(encodingDict ? doc.get(encodingDict, "BaseEncoding") : encodingValue), baseFont)];
+  const differences = encodingDict ? doc.get(encodingDict, "Differences") : undefined;
+  if (Array.isArray(differences)) {
+    let code = 0;
+    for (const item of differences) {
+      const value = doc.resolve(item);
+      if (typeof value === "number") {
+        code = value;
+      } else if (value instanceof PdfName) {
+        const text = glyphNameToUnicode(value.name);
+        if (text !== undefined && code < 256) table[code] = text;
+        code++;
+      }
+    }
+  }
+
+  const firstChar = doc.get(fontDict, "FirstChar");
+  const widthArray = doc.get(fontDict, "Widths");
+  const widthOf = (code: number) => {
+    if (Array.isArray(widthArray) && typeof firstChar === "number") {
+      const width = doc.resolve(widthArray[code - firstChar]);
+      if (typeof width === "number" && width > 0) return width / 1000;
+    }
+    return 0.5;
+  };
+
+  return {
+    decode(bytes) {
+      return Array.from(bytes, (code) => ({
+        text: toUnicode?.mappings[1]?.get(code) ?? table[code] ?? "",
+        width: widthOf(code),
+        isSpace: code === 32,
+      }));
+    },
+  };
+}
+
+function codeLengthAt(bytes: Uint8Array, offset: number, codespaces: CodespaceRange[], fallback: number): number {
+  if (codespaces.length === 0) return fallback;
+  for (let length = 1; length <= 4; length++) {
+    let code = 0;
+    for (let j = 0; j < length; j++) code = code * 256 + (bytes[offset + j] ?? 0);
+    if (codespaces.some((range) => range.length === length && code >= range.low && code <= range.high)) {
+      return length;
+    }
+  }
+  return fallback;
+}
+
+function cidWidths(doc: PdfDocument, descendant: PdfDict) {
+  const widths = new Map<number, number>();
+  const dw = doc.get(descendant, "DW");
+  const w = doc.get(descendant, "W");
+
+  if (Array.isArray(w)) {
+    for (let i = 0; i < w.length; ) {
+      const first = doc.resolve(w[i]);
+      const next = doc.resolve(w[i + 1]);
+      if (typeof first !== "number") break;
+      if (Array.isArray(next)) {
+        next.forEach((width, index) => {
+          const value = doc.resolve(width);
+          if (typeof value === "number") widths.set(first + index, value);
+        });
+        i += 2;
+      } else {
+        const last = next;
+        const width = doc.resolve(w[i + 2]);
+        if (typeof last === "number" && typeof width === "number") {
+          for (let code = first; code <= Math.min(last, first + 0xffff); code++) widths.set(code, width);
+        }
+        i += 3;
+      }
+    }
+  }
+  return { widths, fallback: typeof dw === "number" ? dw : 1000 };
+}
+
+// ---------------------------------------------------------------------------
+// Content stream interpretation
+// ---------------------------------------------------------------------------
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 6;
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+// Everything below U+0020 except tab and newline; unmapped glyphs often
+// decode to these.
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000b-\u001f]/g;
+
+class TextCollector {
+  // The largest image drawn on the page, by area on the page
+  image: { stream: PdfStream; area: number } | null = null;
+  private output = "";
+  private lastX: number | null = null;
+  private lastY: number | null = null;
+  private lastSize = 0;
+
+  // Emits a run of glyphs at position (x, y) in user space. `advance` is
+  // where the run ends, used to decide whether the next run needs a space.
+  add(text: string, x: number, y: number, size: number, endX: number) {
+    if (!text) return;
+    const lineHeight = Math.max(size, 1);
+
+    if (this.lastY !== null && Math.abs(y - this.lastY) > lineHeight * 0.5) {
+      const gap = Math.abs(y - this.lastY);
+      this.output += gap > Math.max(lineHeight, this.lastSize) * 1.8 ? "\n\n" : "\n";
+    } else if (this.lastX !== null && x - this.lastX > lineHeight * 0.15 && !/\s$/.test(this.output) && !/^\s/.test(text)) {
+      this.output += " ";
+    }
+
+    this.output += text;
+    this.lastX = endX;
+    this.lastY = y;
+    this.lastSize = lineHeight;
+  }
+
+  newline() {
+    if (this.output && !this.output.endsWith("\n")) this.output += "\n";
+    this.lastX = null;
+  }
+
+  addImage(stream: PdfStream, area: number) {
+    if (!this.image || area > this.image.area) this.image = { stream, area };
+  }
+
+  toString(): string {
+    return this.output
+      .replace(CONTROL_CHARACTERS, "")
+      .split("\n")
+      .map((line) => line.replace(/[ \t]+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+}
+
+class ContentInterpreter {
+  private fonts = new Map<PdfDict, Promise<PdfFont>>();
+
+  constructor(private doc: PdfDocument) {}
+
+  async run(data: Uint8Array, resources: PdfDict | undefined, collector: TextCollector, ctm: Matrix = IDENTITY, depth = 0) {
+    const doc = this.doc;
+    const lexer = new Lexer(data);
+    const parser = new Parser(lexer);
+    const operands: PdfValue[] = [];
+    const stack: Matrix[] = [];
+
+    let gm: Matrix = ctm;
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+    let font: PdfFont | undefined;
+    let fontSize = 12;
+    let charSpacing = 0;
+    let wordSpacing = 0;
+    let scale = 1;
+    let leading = 0;
+    let rise = 0;
+
+    const show = (bytes: Uint8Array) => {
+      const trm = multiply([fontSize * scale, 0, 0, fontSize, 0, rise], multiply(tm, gm));
+      const x = trm[4];
+      const y = trm[5];
+      const size = Math.hypot(trm[2], trm[3]);
+
+      const glyphs = font ? font.decode(bytes) : Array.from(bytes, (code) => ({
+        text: String.fromCharCode(code),
+        width: 0.5,
+        isSpace: code === 32,
+      }));
+
+      let text = "";
+      let advance = 0;
+      for (const glyph of glyphs) {
+        text += glyph.text;
+        advance += (glyph.width * fontSize + charSpacing + (glyph.isSpace ? wordSpacing : 0)) * scale;
+      }
+      tm = multiply([1, 0, 0, 1, advance, 0], tm);
+      const end = multiply(tm, gm)[4];
+      collector.add(text, x, y, size, end);
+    };
+
+    const moveText = (tx: number, ty: number) => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+      tm = tlm;
+    };
+
+    const num = (index: number) => {
+      const value = operands[operands.length - index];
+      return typeof value === "number" ? value : 0;
+    };
+
+    while (true) {
+      const value = parser.parse();
+      if (value === undefined) break;
+      if (!isKeyword(value)) {
+        operands.push(value);
+        continue;
+      }
+
+      switch (value.keyword) {
+        case "q":
+          stack.push(gm);
+          break;
+        case "Q":
+          gm = stack.pop() ?? ctm;
+          break;
+        case "cm":
+          gm = multiply([num(6), num(5), num(4), num(3), num(2), num(1)], gm);
+          break;
+        case "BT":
+          tm = IDENTITY;
+          tlm = IDENTITY;
+          break;
+        case "ET":
+          break;
+        case "Tf": {
+          const fontName = nameOf(operands[operands.length - 2]);
+          fontSize = num(1) || fontSize;
+          const fontDict = fontName ? doc.getDict(doc.getDict(resources, "Font"), fontName) : undefined;
+          font = fontDict ? await this.font(fontDict) : undefined;
+          break;
+        }
+        case "Tc":
+          charSpacing = num(1);
+          break;
+        case "Tw":
+          wordSpacing = num(1);
+          break;
+        case "Tz":
+          scale = num(1) / 100;
+          break;
+        case "TL":
+          leading = num(1);
+          break;
+        case "Ts":
+          rise = num(1);
+          break;
+        case "Td":
+          moveText(num(2), num(1));
+          break;
+        case "TD":
+          leading = -num(1);
+          moveText(num(2), num(1));
+          break;
+        case "Tm":
+          tlm = [num(6), num(5), num(4), num(3), num(2), num(1)];
+          tm = tlm;
+          break;
+        case "T*":
+          moveText(0, -leading);
+          break;
+        case "Tj": {
+          const text = operands[operands.length - 1];
+          if (text instanceof Uint8Array) show(text);
+          break;
+        }
+        case "'": {
+          moveText(0, -leading);
+          const text = operands[operands.length - 1];
+          if (text instanceof Uint8Array) show(text);
+          break;
+        }
+        case "\"": {
+          wordSpacing = num(3);
+          charSpacing = num(2);
+          moveText(0, -leading);
+          const text = operands[operands.length - 1];
+          if (text instanceof Uint8Array) show(text);
+          break;
+        }
+        case "TJ": {
+          const items = operands[operands.length - 1];
+          if (!Array.isArray(items)) break;
+          for (const item of items) {
+            if (item instanceof Uint8Array) {
+              show(item);
+            } else if (typeof item === "number") {
+              // Kerning adjustments are in thousandths of an em.
+              tm = multiply([1, 0, 0, 1, (-item / 1000) * fontSize * scale, 0], tm);
+            }
+          }
+          break;
+        }
+        case "Do": {
+          const name = nameOf(operands[operands.length - 1]);
+          const xobject = name ? doc.get(doc.getDict(resources, "XObject"), name) : undefined;
+          if (xobject instanceof PdfStream && nameOf(xobject.dict.get("Subtype")) === "Image") {
+            // Images are drawn into the unit square, so the matrix gives their area
+            collector.addImage(xobject, Math.abs(gm[0] * gm[3] - gm[1] * gm[2]));
+          } else if (xobject instanceof PdfStream && nameOf(xobject.dict.get("Subtype")) === "Form" && depth < MAX_FORM_DEPTH) {
+            const matrix = doc.get(xobject, "Matrix");
+            const formMatrix = Array.isArray(matrix) && matrix.length === 6 ? (matrix as number[]) as Matrix : IDENTITY;
+            try {
+              const formData = await doc.decodeStream(xobject);
+              collector.newline();
+              await this.run(formData, doc.getDict(xobject, "Resources") ?? resources, collector, multiply(formMatrix, gm), depth + 1);
+            } catch (error) {
+              console.error("Failed to read form XObject:", error);
+            }
+          }
+          break;
+        }
+        case "BI":
+          skipInlineImage(lexer);
+          break;
+      }
+      operands.length = 0;
+    }
+  }
+
+  private font(dict: PdfDict): Promise<PdfFont> {
+    let font = this.fonts.get(dict);
+    if (!font) {
+      font = loadFont(this.doc, dict);
+      this.fonts.set(dict, font);
+    }
+    return font;
+  }
+}
+
+// Inline image data is raw binary between "ID" and "EI"; skip over it so
+// the lexer does not try to interpret it as operators.
+function skipInlineImage(lexer: Lexer) {
+  const buf = lexer.buf;
+  let token = lexer.next();
+  while (token && !(token.type === "keyword" && token.value === "ID")) token = lexer.next();
+  let pos = lexer.pos + 1;
+  while (pos < buf.length - 2) {
+    if (isWhitespace(buf[pos - 1]) && buf[pos] === 69 && buf[pos + 1] === 73 && (pos + 2 >= buf.length || !isRegular(buf[pos + 2]))) {
+      lexer.pos = pos + 2;
+      return;
+    }
+    pos++;
+  }
+  lexer.pos = buf.length;
+}
+
+// ---------------------------------------------------------------------------
+// Scanned pages
+// ---------------------------------------------------------------------------
+
+// A page with fewer characters than this is read by OCR if it has an image
+const MIN_PAGE_TEXT = 20;
+
+// Number of colour components of a colour space, or null for those not
+// turned into pixels here (Lab, Separation, DeviceN...)
+function colorComponents(doc: PdfDocument, value: PdfValue | undefined): number | null {
+  const space = doc.resolve(value);
+  const family = Array.isArray(space) ? doc.resolve(space[0]) : space;
+  switch (nameOf(family)) {
+    case "DeviceGray":
+    case "G":
+    case "CalGray":
+      return 1;
+    case "DeviceRGB":
+    case "RGB":
+    case "CalRGB":
+      return 3;
+    case "DeviceCMYK":
+    case "CMYK":
+      return 4;
+    case "ICCBased": {
+      const profile = Array.isArray(space) ? doc.resolve(space[1]) : undefined;
+      const count = profile instanceof PdfStream ? doc.get(profile, "N") : undefined;
+      return count === 1 || count === 3 || count === 4 ? count : null;
+    }
+  }
+  return null;
+}
+
+// Colour table of an Indexed colour space as RGB triples
+function paletteToRgb(lookup: Uint8Array, components: number): Uint8Array {
+  const entries = Math.floor(lookup.length / components);
+  const rgb = new Uint8Array(entries * 3);
+  for (let i = 0; i < entries; i++) {
+    const c = lookup.subarray(i * components, (i + 1) * components);
+    if (components === 1) {
+      rgb.fill(c[0], i * 3, i * 3 + 3);
+    } else if (components === 4) {
+      rgb[i * 3] = 255 - Math.min(255, c[0] + c[3]);
+      rgb[i * 3 + 1] = 255 - Math.min(255, c[1] + c[3]);
+      rgb[i * 3 + 2] = 255 - Math.min(255, c[2] + c[3]);
+    } else {
+      rgb.set(c.subarray(0, 3), i * 3);
+    }
+  }
+  return rgb;
+}
+
+// The pixels of an image XObject, or null if its codec or colour space is
+// not supported (JPEG 2000, CCITT and JBIG2 have no decoder here).
+async function renderImage(doc: PdfDocument, stream: PdfStream): Promise<RasterImage | null> {
+  const { data, imageFilter } = await doc.applyFilters(stream);
+  if (imageFilter === "DCTDecode" || imageFilter === "DCT") return await decodeJpeg(data);
+  if (imageFilter) return null;
+
+  const width = doc.get(stream, "Width");
+  const height = doc.get(stream, "Height");
+  if (typeof width !== "number" || typeof height !== "number") return null;
+  const decode = doc.get(stream, "Decode");
+  const invert = Array.isArray(decode) && decode[0] === 1;
+  if (doc.get(stream, "ImageMask") === true) return rasterFromSamples(data, width, height, 1, 1, { invert });
+
+  const bitsValue = doc.get(stream, "BitsPerComponent");
+  const bits = typeof bitsValue === "number" ? bitsValue : 8;
+  const space = doc.get(stream, "ColorSpace");
+  if (Array.isArray(space) && nameOf(doc.resolve(space[0])) === "Indexed") {
+    const base = colorComponents(doc, space[1]);
+    const table = doc.resolve(space[3]);
+    const lookup = table instanceof PdfStream ? await doc.decodeStream(table) : table instanceof Uint8Array ? table : null;
+    if (!base || !lookup) return null;
+    return rasterFromSamples(data, width, height, 1, bits, { palette: paletteToRgb(lookup, base) });
+  }
+  const components = colorComponents(doc, space);
+  if (!components) return null;
+  return rasterFromSamples(data, width, height, components, bits, { invert: invert && components === 1 });
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+export async function extractPdf(bytes: Uint8Array, { onProgress }: ExtractDocumentOptions = {}): Promise<ExtractedDocument> {
+  const doc = new PdfDocument(bytes);
+  await doc.load();
+
+  // Content streams of an encrypted PDF cannot be read without decrypting
+  // them, even when it opens without a password in a viewer
+  if (doc.isEncrypted) {
+    throw new FileValidationError(
+      "This PDF is encrypted or password protected. Save an unprotected copy (e.g. print to PDF) and upload that.",
+    );
+  }
+
+  const interpreter = new ContentInterpreter(doc);
+  const pages: ExtractedPage[] = [];
+  const scans: Array<{ index: number; image: PdfStream }> = [];
+  const pageList = doc.getPages();
+  if (pageList.length > MAX_PAGES) {
+    throw new FileValidationError(`The PDF has ${pageList.length} pages; the limit is ${MAX_PAGES}.`);
+  }
+
+  for (let index = 0; index < pageList.length; index++) {
+    const { page, resources } = pageList[index];
+    const collector = new TextCollector();
+    const contents = doc.get(page, "Contents");
+    const streams = (Array.isArray(contents) ? contents.map((item) => doc.resolve(item)) : [contents])
+      .filter((value): value is PdfStream => value instanceof PdfStream);
+
+    const chunks: Uint8Array[] = [];
+    for (const stream of streams) {
+      try {
+        chunks.push(await doc.decodeStream(stream));
+        // Separate concatenated streams so tokens do not run together.
+        chunks.push(new Uint8Array([10]));
+      } catch (error) {
+        console.error(`Failed to decode content stream on page ${index + 1}:`, error);
+      }
+    }
+
+    try {
+      await interpreter.run(concatBytes(chunks), resources, collector);
+    } catch (error) {
+      console.error(`Failed to interpret page ${index + 1}:`, error);
+    }
+    const text = collector.toString();
+    pages.push({ number: index + 1, text });
+    if (collector.image && text.replace(/\s+/g, "").length < MIN_PAGE_TEXT) {
+      scans.push({ index, image: collector.image.stream });
+    }
+  }
+
+  if (scans.length > MAX_OCR_PAGES) {
+    throw new FileValidationError(
+      `The PDF has ${scans.length} scanned pages; up to ${MAX_OCR_PAGES} can be read. Split it into smaller files and upload those.`,
+    );
+  }
+
+  let recognized = 0;
+  for (let i = 0; i < scans.length; i++) {
+    const { index, image } = scans[i];
+    onProgress?.(`Reading scanned page ${i + 1} of ${scans.length}`);
+    let raster: RasterImage | null = null;
+    try {
+      raster = await renderImage(doc, image);
+    } catch (error) {
+      console.error(`Failed to decode the image on page ${index + 1}:`, error);
+    }
+    if (!raster) continue;
+
+    const text = await recognizeText(raster);
+    if (text) {
+      pages[index].text = text;
+      recognized++;
+    }
+  }
+
+  if (scans.length > 0 && recognized === 0 && pages.every((page) => !page.text)) {
+    throw new FileValidationError(
+      "The scanned pages of this PDF could not be read. Its images may use a compression that is not supported " +
+        "(JBIG2, CCITT or JPEG 2000); export it with JPEG images and upload it again.",
+    );
+  }
+  return { pages, recognized: recognized > 0 };
+}
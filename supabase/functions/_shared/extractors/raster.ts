@@ -0,0 +1,416 @@
+// Decoding of images into RGBA pixels for OCR.
+//
+// PNG is decoded here (its pixel data is a zlib stream, see inflate.ts);
+// JPEG and HEIC go through decoders loaded on first use, since most
+// uploads never need them. PDF image objects arrive as raw samples and are
+// converted with rasterFromSamples.
+
+import { concatBytes, inflate } from "./inflate.ts";
+import { FileValidationError, MAX_IMAGE_PIXELS } from "./validation.ts";
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  // 4 bytes per pixel (RGBA), row by row, like the DOM's ImageData
+  data: Uint8ClampedArray;
+}
+
+export function checkImageSize(width: number, height: number) {
+  if (!(width > 0 && height > 0)) throw new FileValidationError("The image is damaged: it has no pixels.");
+  if (width * height > MAX_IMAGE_PIXELS) {
+    throw new FileValidationError(
+      `The image is ${width}×${height} pixels; the limit is ${MAX_IMAGE_PIXELS / 1_000_000} megapixels.`,
+    );
+  }
+}
+
+export async function decodeImage(bytes: Uint8Array, format: "png" | "jpeg" | "heic"): Promise<RasterImage> {
+  switch (format) {
+    case "png":
+      return await decodePng(bytes);
+    case "jpeg":
+      return await decodeJpeg(bytes);
+    case "heic":
+      return await decodeHeic(bytes);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Samples
+// ---------------------------------------------------------------------------
+
+// Reads `count` samples of `bits` bits each from a row of packed samples.
+// With `scale`, samples are stretched to 0-255 (16-bit samples keep their
+// high byte); without, they are returned as is (palette indices).
+function readSamples(row: Uint8Array, count: number, bits: number, out: Uint8Array, scale = true) {
+  if (bits === 8) {
+    out.set(row.subarray(0, count));
+    return;
+  }
+  if (bits === 16) {
+    for (let i = 0; i < count; i++) out[i] = row[i * 2];
+    return;
+  }
+  const perByte = 8 / bits;
+  const mask = (1 << bits) - 1;
+  const factor = scale ? 255 / mask : 1;
+  for (let i = 0; i < count; i++) {
+    const byte = row[Math.floor(i / perByte)];
+    const shift = 8 - bits * ((i % perByte) + 1);
+    out[i] = ((byte >> shift) & mask) * factor;
+  }
+}
+
+// Transparent pixels are laid over white paper
+const overWhite = (value: number, alpha: number) => Math.round((value * alpha + 255 * (255 - alpha)) / 255);
+
+export interface SampleOptions {
+  // RGB triples to look samples up in (indexed colour)
+  palette?: Uint8Array;
+  // Alpha for each palette entry
+  paletteAlpha?: Uint8Array;
+  // Samples run from white to black, as in PDF image masks and Decode [1 0]
+  invert?: boolean;
+}
+
+// Writes one row of samples into the image. Supports 1 (grey or palette),
+// 2 (grey and alpha), 3 (RGB), 4 (RGBA, or CMYK when `cmyk`) components.
+function writePixels(
+  image: RasterImage,
+  samples: Uint8Array,
+  components: number,
+  y: number,
+  firstX: number,
+  stepX: number,
+  count: number,
+  { palette, paletteAlpha, invert }: SampleOptions,
+  cmyk = false,
+) {
+  const { data, width } = image;
+  for (let i = 0; i < count; i++) {
+    const offset = (y * width + firstX + i * stepX) * 4;
+    const s = i * components;
+    let r: number, g: number, b: number;
+    let alpha = 255;
+    if (palette) {
+      const index = samples[s];
+      r = palette[index * 3] ?? 0;
+      g = palette[index * 3 + 1] ?? 0;
+      b = palette[index * 3 + 2] ?? 0;
+      alpha = paletteAlpha?.[index] ?? 255;
+    } else if (components <= 2) {
+      r = g = b = invert ? 255 - samples[s] : samples[s];
+      if (components === 2) alpha = samples[s + 1];
+    } else if (cmyk) {
+      const k = samples[s + 3];
+      r = 255 - Math.min(255, samples[s] + k);
+      g = 255 - Math.min(255, samples[s + 1] + k);
+      b = 255 - Math.min(255, samples[s + 2] + k);
+    } else {
+      r = samples[s];
+      g = samples[s + 1];
+      b = samples[s + 2];
+      if (components === 4) alpha = samples[s + 3];
+    }
+    data[offset] = alpha === 255 ? r : overWhite(r, alpha);
+    data[offset + 1] = alpha === 255 ? g : overWhite(g, alpha);
+    data[offset + 2] = alpha === 255 ? b : overWhite(b, alpha);
+    data[offset + 3] = 255;
+  }
+}
+
+// The samples of a PDF image object: rows padded to whole bytes, 1 (grey),
+// 3 (RGB) or 4 (CMYK) components, or palette indices.
+export function rasterFromSamples(
+  samples: Uint8Array,
+  width: number,
+  height: number,
+  components: number,
+  bitsPerComponent: number,
+  options: SampleOptions = {},
+): RasterImage {
+  checkImageSize(width, height);
+  const image: RasterImage = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  const rowBytes = Math.ceil((width * components * bitsPerComponent) / 8);
+  const row = new Uint8Array(width * components);
+  for (let y = 0; y < height; y++) {
+    const start = y * rowBytes;
+    if (start >= samples.length) break;
+    readSamples(samples.subarray(start, start + rowBytes), width * components, bitsPerComponent, row, !options.palette);
+    writePixels(image, row, components, y, 0, 1, width, options, components === 4);
+  }
+  return image;
+}
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes: first column and row, then the column and row steps
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  if (pa <= pb && pa <= pc) return left;
+  return pb <= pc ? up : upLeft;
+}
+
+function unfilterRow(row: Uint8Array, previous: Uint8Array, filter: number, bytesPerPixel: number) {
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+    const up = previous[i];
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+    switch (filter) {
+      case 0:
+        break;
+      case 1:
+        row[i] += left;
+        break;
+      case 2:
+        row[i] += up;
+        break;
+      case 3:
+        row[i] += (left + up) >> 1;
+        break;
+      case 4:
+        row[i] += paeth(left, up, upLeft);
+        break;
+      default:
+        throw new FileValidationError("The PNG image is damaged.");
+    }
+  }
+}
+
+export async function decodePng(bytes: Uint8Array): Promise<RasterImage> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let header: { width: number; height: number; bitDepth: number; colorType: number; interlaced: boolean } | null = null;
+  let palette: Uint8Array | undefined;
+  let paletteAlpha: Uint8Array | undefined;
+  const idat: Uint8Array[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const data = bytes.subarray(pos + 8, pos + 8 + length);
+    if (type === "IHDR" && data.length >= 13) {
+      header = {
+        width: view.getUint32(pos + 8),
+        height: view.getUint32(pos + 12),
+        bitDepth: data[8],
+        colorType: data[9],
+        interlaced: data[12] === 1,
+      };
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      paletteAlpha = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+    pos += length + 12;
+  }
+
+  const channels = header ? PNG_CHANNELS[header.colorType] : undefined;
+  if (!header || !channels || idat.length === 0) throw new FileValidationError("The PNG image is damaged.");
+  const { width, height, bitDepth, colorType, interlaced } = header;
+  checkImageSize(width, height);
+
+  const passes = (interlaced ? ADAM7 : [[0, 0, 1, 1]]).map(([x0, y0, dx, dy]) => ({
+    x0,
+    dx,
+    y0,
+    dy,
+    columns: Math.ceil((width - x0) / dx),
+    rows: Math.ceil((height - y0) / dy),
+  })).filter((pass) => pass.columns > 0 && pass.rows > 0);
+  const rowBytes = (columns: number) => Math.ceil((columns * channels * bitDepth) / 8);
+  const expected = passes.reduce((sum, pass) => sum + pass.rows * (1 + rowBytes(pass.columns)), 0);
+  const raw = await inflate(concatBytes(idat), "deflate", expected);
+
+  const image: RasterImage = { width, height, data: new Uint8ClampedArray(width * height * 4).fill(255) };
+  const options: SampleOptions = colorType === 3 ? { palette, paletteAlpha } : {};
+  const bytesPerPixel = Math.max(1, (channels * bitDepth) / 8);
+  let offset = 0;
+  for (const pass of passes) {
+    const length = rowBytes(pass.columns);
+    let previous = new Uint8Array(length);
+    const samples = new Uint8Array(pass.columns * channels);
+    for (let r = 0; r < pass.rows && offset < raw.length; r++) {
+      const filter = raw[offset];
+      const row = raw.slice(offset + 1, offset + 1 + length);
+      offset += length + 1;
+      unfilterRow(row, previous, filter, bytesPerPixel);
+      readSamples(row, pass.columns * channels, bitDepth, samples, colorType !== 3);
+      writePixels(image, samples, channels, pass.y0 + r * pass.dy, pass.x0, pass.dx, pass.columns, options);
+      previous = row;
+    }
+  }
+  return image;
+}
+
+// ---------------------------------------------------------------------------
+// JPEG and HEIC
+// ---------------------------------------------------------------------------
+
+// Image size from the start-of-frame segment, checked before decoding
+function jpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  let pos = 2;
+  while (pos + 9 < bytes.length) {
+    if (bytes[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = bytes[pos + 1];
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[pos + 5] << 8) | bytes[pos + 6],
+        width: (bytes[pos + 7] << 8) | bytes[pos + 8],
+      };
+    }
+    pos += marker === 0xff ? 1 : length + 2;
+  }
+  return null;
+}
+
+const EXIF_ROTATIONS: Record<number, number> = { 3: 180, 6: 90, 8: 270 };
+
+// Phones store photos as the sensor saw them and record how to turn them
+// upright in the EXIF Orientation tag. Returns the clockwise rotation it
+// asks for (mirrored orientations are not used by cameras).
+function jpegRotation(bytes: Uint8Array): number {
+  let pos = 2;
+  while (pos + 4 < bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1];
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    // Metadata segments come before the image data
+    if (marker === 0xda) break;
+    const exif = pos + 4;
+    if (marker === 0xe1 && String.fromCharCode(...bytes.subarray(exif, exif + 4)) === "Exif") {
+      const tiff = exif + 6;
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const little = bytes[tiff] === 0x49;
+      try {
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) {
+            return EXIF_ROTATIONS[view.getUint16(entry + 8, little)] ?? 0;
+          }
+        }
+      } catch {
+        // Truncated EXIF data: leave the photo as stored
+      }
+      return 0;
+    }
+    pos += length + 2;
+  }
+  return 0;
+}
+
+export async function decodeJpeg(bytes: Uint8Array): Promise<RasterImage> {
+  const size = jpegSize(bytes);
+  if (!size) throw new FileValidationError("The JPEG image is damaged.");
+  checkImageSize(size.width, size.height);
+
+  const { default: jpeg } = await import("https://esm.sh/jpeg-js@0.4.4");
+  try {
+    const { width, height, data } = jpeg.decode(bytes, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_IMAGE_PIXELS / 1_000_000,
+      maxMemoryUsageInMB: 512,
+    });
+    const image = { width, height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) };
+    return rotate(image, jpegRotation(bytes));
+  } catch (error) {
+    throw new FileValidationError(`The JPEG image could not be decoded: ${error instanceof Error ? error.message : error}.`);
+  }
+}
+
+export async function decodeHeic(bytes: Uint8Array): Promise<RasterImage> {
+  const { default: decode } = await import("https://esm.sh/heic-decode@2.1.0");
+  let image: RasterImage;
+  try {
+    image = await decode({ buffer: bytes });
+  } catch (error) {
+    throw new FileValidationError(`The HEIC image could not be decoded: ${error instanceof Error ? error.message : error}.`);
+  }
+  checkImageSize(image.width, image.height);
+  return image;
+}
+
+// ---------------------------------------------------------------------------
+// Transforms
+// ---------------------------------------------------------------------------
+
+// Scales the image down by a whole factor (averaging each block of pixels)
+// until neither side is longer than maxSide.
+export function fitWithin(image: RasterImage, maxSide: number): RasterImage {
+  const factor = Math.ceil(Math.max(image.width, image.height) / maxSide);
+  if (factor <= 1) return image;
+
+  const width = Math.floor(image.width / factor);
+  const height = Math.floor(image.height / factor);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const area = factor * factor;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        let source = ((y * factor + dy) * image.width + x * factor) * 4;
+        for (let dx = 0; dx < factor; dx++, source += 4) {
+          r += image.data[source];
+          g += image.data[source + 1];
+          b += image.data[source + 2];
+        }
+      }
+      const target = (y * width + x) * 4;
+      data[target] = r / area;
+      data[target + 1] = g / area;
+      data[target + 2] = b / area;
+      data[target + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+// Rotates the image clockwise by a multiple of 90 degrees
+export function rotate(image: RasterImage, degrees: number): RasterImage {
+  const turns = (((Math.round(degrees / 90) % 4) + 4) % 4);
+  if (turns === 0) return image;
+
+  const { width, height } = image;
+  const rotated = turns === 2 ? { width, height } : { width: height, height: width };
+  const data = new Uint8ClampedArray(image.data.length);
+  const pixels = new Uint32Array(image.data.buffer, image.data.byteOffset, width * height);
+  const target = new Uint32Array(data.buffer);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let index: number;
+      if (turns === 1) index = x * rotated.width + (height - 1 - y);
+      else if (turns === 2) index = (height - 1 - y) * width + (width - 1 - x);
+      else index = (width - 1 - x) * rotated.width + y;
+      target[index] = pixels[y * width + x];
+    }
+  }
+  return { ...rotated, data };
+}
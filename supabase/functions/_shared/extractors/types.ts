@@ -0,0 +1,43 @@
+// Common shape returned by every document extractor.
+//
+// A "page" is whatever physical unit the source format has: a PDF page,
+// a slide, or the whole body for formats without pagination (DOCX, TXT, LaTeX).
+// Page numbers are 1-based and are kept so later stages can cite where a
+// passage came from.
+
+export interface ExtractedPage {
+  number: number;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  pages: ExtractedPage[];
+  // Set for sources that are already authored as structured notes (LaTeX,
+  // Markdown); their text is used as the processed note verbatim instead
+  // of going through the AI rewrite.
+  isStructured?: boolean;
+  // Set when some of the text was read from images by OCR, so it may have
+  // recognition errors.
+  recognized?: boolean;
+}
+
+export interface ExtractDocumentOptions {
+  // Told what a slow extraction (OCR of scanned pages) is working on
+  onProgress?: (detail: string) => void;
+}
+
+export function formatPageMarker(pageNumber: number): string {
+  return `[Page ${pageNumber}]`;
+}
+
+// Flattens a document to plain text, prefixing every page with a marker
+// line so the page boundaries survive into original_content.
+export function documentToText(document: ExtractedDocument): string {
+  const pages = document.pages.filter((page) => page.text.trim().length > 0);
+  if (pages.length === 1 && document.pages.length === 1) {
+    return pages[0].text.trim();
+  }
+  return pages
+    .map((page) => `${formatPageMarker(page.number)}\n${page.text.trim()}`)
+    .join("\n\n");
+}
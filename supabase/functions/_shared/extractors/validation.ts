@@ -0,0 +1,145 @@
+// Checks an upload before any extractor parses it. The extension in the
+// storage path comes from the client, so the file's signature decides
+// what it really is; a mismatch, an encrypted file or a file that would
+// expand beyond the limits is rejected with a message meant for the user
+// (it ends up in the note's error_message).
+
+import { ZipArchive } from "./zip.ts";
+import { isCompoundFile } from "./cfb.ts";
+
+// Limits that keep a single upload from exhausting the function: how far
+// an archive may expand, how many entries it may list, how many pages or
+// slides a document may have, how large an image may be once decoded and
+// how many scanned pages are read by OCR (a few seconds each).
+export const MAX_DECOMPRESSED_BYTES = 200 * 1024 * 1024;
+export const MAX_ARCHIVE_ENTRIES = 10_000;
+export const MAX_PAGES = 1_000;
+export const MAX_IMAGE_PIXELS = 25_000_000;
+export const MAX_OCR_PAGES = 50;
+
+// A problem with the file itself. Retrying cannot help, so the job fails
+// straight away.
+export class FileValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileValidationError";
+  }
+}
+
+export type FileFormat = "pdf" | "zip" | "ole2" | "png" | "jpeg" | "heic" | "text" | "unknown";
+
+const FORMAT_LABELS: Record<FileFormat, string> = {
+  pdf: "a PDF",
+  zip: "a ZIP archive or Office document",
+  ole2: "a legacy Office document",
+  png: "a PNG image",
+  jpeg: "a JPEG image",
+  heic: "a HEIC image",
+  text: "plain text",
+  unknown: "a binary file",
+};
+
+// Formats each extension may hold. Some ".doc" files are RTF or HTML
+// saved under the old extension; the DOC extractor handles those as text.
+const EXPECTED_FORMATS: Record<string, { formats: FileFormat[]; label: string }> = {
+  pdf: { formats: ["pdf"], label: "PDF" },
+  docx: { formats: ["zip"], label: "Word (.docx) document" },
+  pptx: { formats: ["zip"], label: "PowerPoint (.pptx) presentation" },
+  zip: { formats: ["zip"], label: "ZIP archive" },
+  doc: { formats: ["ole2", "text"], label: "Word (.doc) document" },
+  ppt: { formats: ["ole2"], label: "PowerPoint (.ppt) presentation" },
+  png: { formats: ["png"], label: "PNG image" },
+  jpg: { formats: ["jpeg"], label: "JPEG image" },
+  jpeg: { formats: ["jpeg"], label: "JPEG image" },
+  heic: { formats: ["heic"], label: "HEIC image" },
+  heif: { formats: ["heic"], label: "HEIF image" },
+  txt: { formats: ["text"], label: "text file" },
+  md: { formats: ["text"], label: "Markdown file" },
+  markdown: { formats: ["text"], label: "Markdown file" },
+  tex: { formats: ["text"], label: "LaTeX file" },
+};
+
+const HEIF_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]);
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte);
+
+export function sniffFormat(bytes: Uint8Array): FileFormat {
+  // "%PDF-" may follow some junk; readers accept it within the first 1KB
+  const head = new TextDecoder("latin1").decode(bytes.subarray(0, 1024));
+  if (head.includes("%PDF-")) return "pdf";
+  // Local file header, or the end record of an empty archive
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) return "zip";
+  if (isCompoundFile(bytes)) return "ole2";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpeg";
+  // ISO media "ftyp" box with a HEIF brand
+  if (startsWith(bytes, [0x66, 0x74, 0x79, 0x70], 4) && HEIF_BRANDS.has(new TextDecoder("latin1").decode(bytes.subarray(8, 12)))) {
+    return "heic";
+  }
+  // UTF-16 with a byte order mark
+  if (startsWith(bytes, [0xff, 0xfe]) || startsWith(bytes, [0xfe, 0xff])) return "text";
+  // Text in any 8-bit encoding has no NUL bytes; binary formats do
+  return bytes.subarray(0, 8192).includes(0) ? "unknown" : "text";
+}
+
+function checkArchive(archive: ZipArchive) {
+  const entries = [...archive.entries.values()];
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new FileValidationError(`The archive has more than ${MAX_ARCHIVE_ENTRIES} files.`);
+  }
+  if (entries.some((entry) => entry.encrypted)) {
+    throw new FileValidationError("The file is password protected. Remove the password and upload it again.");
+  }
+  // Declared sizes; ZipArchive.read also refuses to inflate an entry past
+  // its declared size, so a forged header cannot get around this
+  const total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (total > MAX_DECOMPRESSED_BYTES) {
+    throw new FileValidationError(
+      `The file expands to more than ${MAX_DECOMPRESSED_BYTES / (1024 * 1024)} MB when unpacked.`,
+    );
+  }
+}
+
+function checkOfficePackage(archive: ZipArchive, extension: string) {
+  if (extension === "docx" && !archive.has("word/document.xml")) {
+    throw new FileValidationError("This file is not a valid Word (.docx) document.");
+  }
+  if (extension === "pptx") {
+    const slides = archive.names().filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name)).length;
+    if (!archive.has("ppt/presentation.xml")) {
+      throw new FileValidationError("This file is not a valid PowerPoint (.pptx) presentation.");
+    }
+    if (slides > MAX_PAGES) {
+      throw new FileValidationError(`The presentation has ${slides} slides; the limit is ${MAX_PAGES}.`);
+    }
+  }
+}
+
+// Throws FileValidationError if the bytes are not a file of the type the
+// extension claims, or exceed the limits. The page count of a PDF is
+// checked by the PDF extractor, which has the page tree at hand.
+export function validateFile(bytes: Uint8Array, extension: string | undefined): void {
+  if (bytes.length === 0) throw new FileValidationError("The file is empty.");
+
+  const expected = EXPECTED_FORMATS[extension ?? ""];
+  if (!expected) throw new FileValidationError(`Unsupported file type${extension ? ` .${extension}` : ""}.`);
+
+  const format = sniffFormat(bytes);
+  if (!expected.formats.includes(format)) {
+    throw new FileValidationError(
+      `This file is not a valid ${expected.label}: its contents look like ${FORMAT_LABELS[format]}.`,
+    );
+  }
+
+  if (format === "zip") {
+    let archive: ZipArchive;
+    try {
+      archive = ZipArchive.open(bytes);
+    } catch (error) {
+      throw new FileValidationError(`The file is damaged: ${error instanceof Error ? error.message : "unreadable archive"}.`);
+    }
+    checkArchive(archive);
+    checkOfficePackage(archive, extension!);
+  }
+}
@@ -0,0 +1,148 @@
+// Small non-validating XML parser, enough for OOXML parts.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: "\"", apos: "'" };
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const attributePattern = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let pos = 0;
+
+  while (pos < text.length) {
+    const lt = text.indexOf("<", pos);
+    const top = stack[stack.length - 1];
+
+    if (lt < 0 || lt > pos) {
+      const end = lt < 0 ? text.length : lt;
+      const chunk = text.slice(pos, end);
+      if (chunk) top.children.push(decodeEntities(chunk));
+      if (lt < 0) break;
+      pos = lt;
+      continue;
+    }
+
+    if (text.startsWith("<!--", pos)) {
+      const end = text.indexOf("-->", pos);
+      pos = end < 0 ? text.length : end + 3;
+    } else if (text.startsWith("<![CDATA[", pos)) {
+      const end = text.indexOf("]]>", pos);
+      top.children.push(text.slice(pos + 9, end < 0 ? text.length : end));
+      pos = end < 0 ? text.length : end + 3;
+    } else if (text.startsWith("<?", pos) || text.startsWith("<!", pos)) {
+      const end = text.indexOf(">", pos);
+      pos = end < 0 ? text.length : end + 1;
+    } else if (text.startsWith("</", pos)) {
+      const end = text.indexOf(">", pos);
+      const name = text.slice(pos + 2, end).trim();
+      // Pop back to the matching element; tolerate unbalanced markup.
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      pos = end < 0 ? text.length : end + 1;
+    } else {
+      const end = findTagEnd(text, pos);
+      let body = text.slice(pos + 1, end);
+      const selfClosing = body.endsWith("/");
+      if (selfClosing) body = body.slice(0, -1);
+
+      const nameEnd = body.search(/[\s]/);
+      const name = nameEnd < 0 ? body : body.slice(0, nameEnd);
+      const attributes: Record<string, string> = {};
+      if (nameEnd >= 0) {
+        for (const match of body.slice(nameEnd).matchAll(attributePattern)) {
+          attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? "");
+        }
+      }
+
+      const element: XmlElement = { name, attributes, children: [] };
+      top.children.push(element);
+      if (!selfClosing) stack.push(element);
+      pos = end + 1;
+    }
+  }
+
+  return root.children.find((child): child is XmlElement => typeof child !== "string") ?? root;
+}
+
+// Finds the closing ">" of a start tag, skipping quoted attribute values.
+function findTagEnd(text: string, pos: number): number {
+  let quote = "";
+  for (let i = pos + 1; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === quote) quote = "";
+    } else if (c === "\"" || c === "'") {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    }
+  }
+  return text.length;
+}
+
+export function localName(name: string): string {
+  const colon = name.indexOf(":");
+  return colon < 0 ? name : name.slice(colon + 1);
+}
+
+export function isElement(node: XmlNode | undefined): node is XmlElement {
+  return typeof node === "object" && node !== null;
+}
+
+export function childElements(element: XmlElement | undefined, name?: string): XmlElement[] {
+  if (!element) return [];
+  return element.children.filter(
+    (child): child is XmlElement => isElement(child) && (!name || child.name === name),
+  );
+}
+
+export function firstChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find((child): child is XmlElement => isElement(child) && child.name === name);
+}
+
+// Depth-first search for descendants with the given qualified name.
+export function findAll(element: XmlElement | undefined, name: string, results: XmlElement[] = []): XmlElement[] {
+  if (!element) return results;
+  for (const child of element.children) {
+    if (!isElement(child)) continue;
+    if (child.name === name) results.push(child);
+    findAll(child, name, results);
+  }
+  return results;
+}
+
+export function findFirst(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  if (!element) return undefined;
+  for (const child of element.children) {
+    if (!isElement(child)) continue;
+    if (child.name === name) return child;
+    const found = findFirst(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function textContent(node: XmlNode | undefined): string {
+  if (node === undefined) return "";
+  if (typeof node === "string") return node;
+  return node.children.map(textContent).join("");
+}
@@ -0,0 +1,136 @@
+// Minimal ZIP reader for OOXML packages and zipped LaTeX projects.
+//
+// Only stored (0) and deflated (8) entries are supported, which covers
+// everything Office and common archivers produce.
+
+import { DecompressionLimitError, inflate } from "./inflate.ts";
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export class ZipArchive {
+  readonly entries = new Map<string, ZipEntry>();
+
+  private constructor(private bytes: Uint8Array) {}
+
+  static open(bytes: Uint8Array): ZipArchive {
+    const archive = new ZipArchive(bytes);
+    archive.readCentralDirectory();
+    return archive;
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  async read(name: string): Promise<Uint8Array | undefined> {
+    const entry = this.entries.get(name);
+    if (!entry) return undefined;
+    if (entry.encrypted) {
+      throw new Error(`Archive entry ${name} is encrypted`);
+    }
+
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+    const offset = entry.localHeaderOffset;
+    if (view.getUint32(offset, true) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt archive: bad local header for ${name}`);
+    }
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const start = offset + 30 + nameLength + extraLength;
+    const data = this.bytes.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return data;
+      case 8:
+        // The central directory records the real size; more output than
+        // that means a forged header
+        try {
+          return await inflate(data, "deflate-raw", entry.size);
+        } catch (error) {
+          if (error instanceof DecompressionLimitError) {
+            throw new Error(`Archive entry ${name} expands beyond its declared size`);
+          }
+          throw error;
+        }
+      default:
+        throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+    }
+  }
+
+  async readText(name: string): Promise<string | undefined> {
+    const data = await this.read(name);
+    return data ? new TextDecoder("utf-8").decode(data) : undefined;
+  }
+
+  private readCentralDirectory() {
+    const bytes = this.bytes;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // The end-of-central-directory record sits within the last 64KB + 22
+    // bytes (the comment can be up to 64KB long).
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+      if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) throw new Error("Not a valid ZIP archive");
+
+    const count = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    if (offset === 0xffffffff || count === 0xffff) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+
+    const decoder = new TextDecoder("utf-8");
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+        throw new Error("Corrupt archive: bad central directory");
+      }
+      const flags = view.getUint16(offset + 8, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+      this.entries.set(name, {
+        name,
+        method: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        size: view.getUint32(offset + 24, true),
+        localHeaderOffset: view.getUint32(offset + 42, true),
+        encrypted: (flags & 1) === 1,
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}
+
+// Resolves a relationship target against the directory of the part that
+// references it ("../notesSlides/x.xml" from "ppt/slides/").
+export function resolveZipPath(baseDir: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = baseDir.split("/").filter(Boolean);
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== "." && segment) parts.push(segment);
+  }
+  return parts.join("/");
+}
@@ -0,0 +1,99 @@
+// Background processing queue (public.processing_jobs).
+//
+// process-notes and reprocess-note enqueue a job and wake the worker;
+// process-notes-worker claims jobs one at a time (claim_processing_job),
+// runs them, and either completes them, schedules a retry with exponential
+// backoff, or fails them and marks the note as errored. Jobs of notes moved
+// to the trash are cancelled.
+// reap_processing_jobs requeues jobs whose worker stopped before finishing.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AiProviderError } from "./ai-provider.ts";
+import type { StructuringStyle } from "./structuring.ts";
+
+// What a job should do, stored with it (processing_jobs.options).
+// "extract" re-reads the file and rebuilds the note without calling the
+// AI; "structure" (the default) also runs AI structuring in `style`.
+export interface ProcessingOptions {
+  mode?: "extract" | "structure";
+  style?: StructuringStyle;
+}
+
+export interface ProcessingJob {
+  id: string;
+  note_id: string;
+  user_id: string;
+  status: "queued" | "running" | "succeeded" | "failed" | "cancelled";
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+  options: ProcessingOptions;
+}
+
+// A failure that may not happen again: network errors, rate limits,
+// storage or provider outages.
+export class TransientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransientError";
+  }
+}
+
+// The note was moved to the trash while its job ran. The job is cancelled
+// rather than retried or failed.
+export class NoteTrashedError extends Error {
+  constructor() {
+    super("Processing stopped when the note was moved to the trash. Reprocess it to finish.");
+    this.name = "NoteTrashedError";
+  }
+}
+
+export function isTransient(error: unknown): boolean {
+  if (error instanceof TransientError) return true;
+  if (error instanceof AiProviderError) return error.transient;
+  // fetch() rejects with a TypeError when the connection fails
+  return error instanceof TypeError;
+}
+
+const BASE_DELAY_SECONDS = 30;
+const MAX_DELAY_SECONDS = 30 * 60;
+
+// 30s, 1m, 2m, 4m... capped at 30 minutes.
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_SECONDS);
+}
+
+// Queues processing for a note unless a job for it is already queued or
+// running (a partial unique index allows one unfinished job per note).
+// Returns false in that case.
+export async function enqueueProcessingJob(
+  supabase: SupabaseClient,
+  noteId: string,
+  userId: string,
+  options: ProcessingOptions = {},
+): Promise<boolean> {
+  const { error } = await supabase.from("processing_jobs").insert({ note_id: noteId, user_id: userId, options });
+  if (error?.code === "23505") return false;
+  if (error) throw error;
+  return true;
+}
+
+// Asks the worker to drain the queue. The worker answers as soon as it has
+// started, so this does not wait for processing.
+export async function wakeWorker(): Promise<void> {
+  try {
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/process-notes-worker`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        "Content-Type": "application/json",
+      },
+      body: "{}",
+    });
+    await response.body?.cancel();
+  } catch (error) {
+    // The job stays queued for the next scheduled run.
+    console.error("Failed to wake processing worker:", error);
+  }
+}
@@ -0,0 +1,281 @@
+// Turns an uploaded file into a processed note: download, extract,
+// structure with the AI provider, then store the chunks and the content as
+// a new note version. A ZIP of documents is unpacked into notes of their
+// own instead (see archive.ts).
+// Run by the process-notes-worker for each claimed job; each stage is
+// reported on the note as it starts.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { documentToText, extractDocument } from "./extractors/index.ts";
+import { applyOutline, buildNoteChunks, OutlineHeading } from "./chunking.ts";
+import { embedTexts, embeddingsEnabled, toVectorLiteral } from "./embeddings.ts";
+import { StructuringResult, structureDocument } from "./structuring.ts";
+import { AiConfigurationError, getAiProvider, isAiConfigured } from "./ai-provider.ts";
+import { NoteTrashedError, ProcessingOptions, TransientError } from "./jobs.ts";
+import { ProgressReporter, noteProgressReporter } from "./progress.ts";
+import { contentHash } from "./content-hash.ts";
+import { describeExpansion, expandArchive, openExpandableArchive } from "./archive.ts";
+import { FileValidationError } from "./extractors/validation.ts";
+import type { ZipArchive } from "./extractors/zip.ts";
+
+export interface NoteToProcess {
+  id: string;
+  user_id: string;
+  file_name: string;
+  file_url: string;
+}
+
+export interface ProcessNoteOptions extends ProcessingOptions {
+  // On the last attempt transient AI failures are tolerated and the
+  // affected parts are kept as raw text.
+  finalAttempt: boolean;
+}
+
+export interface ProcessNoteResult {
+  contentLength: number;
+  // Notes created from an archive, which is not a note itself
+  unpacked?: number;
+}
+
+// Extraction and structuring can take minutes; a note trashed meanwhile
+// must not have its chunks and content replaced
+async function ensureNotTrashed(supabase: SupabaseClient, noteId: string) {
+  const { data, error } = await supabase.from("notes").select("deleted_at").eq("id", noteId).maybeSingle();
+  if (error) throw new TransientError(`Failed to check the note: ${error.message}`);
+  if (!data || data.deleted_at) throw new NoteTrashedError();
+}
+
+// Imports the documents of an archive as notes with jobs of their own,
+// then purges the archive note, which queues its file for removal. The
+// upload dialog shows the summary as the archive's result.
+async function unpackArchive(
+  supabase: SupabaseClient,
+  note: NoteToProcess,
+  archive: ZipArchive,
+  reportProgress: ProgressReporter,
+): Promise<ProcessNoteResult> {
+  const expansion = await expandArchive(supabase, note.user_id, archive, (done, total) =>
+    reportProgress("unpacking", 10 + (85 * done) / total, `Unpacking file ${done + 1} of ${total}`)
+  );
+  if (expansion.notes.length === 0) {
+    throw new FileValidationError("The archive contains no supported files");
+  }
+
+  const { error: updateError } = await supabase.from("notes").update({
+    status: "ready",
+    processing_stage: null,
+    processing_progress: 100,
+    processing_detail: describeExpansion(expansion),
+    deleted_at: new Date().toISOString(),
+  }).eq("id", note.id);
+  if (updateError) throw updateError;
+
+  // Left in the trash, the archive would still be purged after 30 days.
+  // deleted_at comes from this function's clock, which may run ahead of
+  // the database's.
+  const { error: purgeError } = await supabase.rpc("purge_notes", {
+    p_user_id: note.user_id,
+    p_note_ids: [note.id],
+    p_older_than: "-5 minutes",
+  });
+  if (purgeError) console.error("Failed to purge unpacked archive:", purgeError);
+
+  return { contentLength: 0, unpacked: expansion.notes.length };
+}
+
+export async function processNote(supabase: SupabaseClient, note: NoteToProcess, options: ProcessNoteOptions): Promise<ProcessNoteResult> {
+  const reportProgress = noteProgressReporter(supabase, note.id);
+
+  // Get the file from storage
+  await reportProgress("downloading", 5);
+  const filePath = note.file_url;
+  console.log("Downloading file from storage:", filePath);
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from("notes")
+    .download(filePath);
+
+  if (downloadError) {
+    console.error("Download error:", downloadError);
+    // A missing object will stay missing; anything else (network, 5xx)
+    // may succeed on a later attempt.
+    const status = (downloadError as { status?: number }).status;
+    const message = `Failed to download file: ${downloadError.message}`;
+    throw status && status < 500 ? new Error(message) : new TransientError(message);
+  }
+
+  console.log("File downloaded successfully, size:", fileData.size);
+
+  // Extract text content based on file type
+  const fileName = filePath.split("/").pop() || "";
+  const fileExtension = fileName.split(".").pop()?.toLowerCase();
+
+  console.log("Processing file:", fileName, "extension:", fileExtension);
+
+  const bytes = new Uint8Array(await fileData.arrayBuffer());
+
+  // A ZIP of documents becomes one note per document; only a LaTeX
+  // project is processed as a single note
+  if (fileExtension === "zip") {
+    const archive = openExpandableArchive(bytes);
+    if (archive) return await unpackArchive(supabase, note, archive, reportProgress);
+  }
+
+  await reportProgress("extracting", 10);
+  const document = await extractDocument(bytes, fileExtension, {
+    onProgress: (detail) => reportProgress("extracting", 10, detail),
+  });
+  const extractedText = documentToText(document);
+
+  console.log("Extraction result:", document.pages.length, "pages,", extractedText.length, "chars");
+
+  // Process with AI
+  let processedContent = extractedText;
+  // How this version was produced, for note_versions
+  let version: { source: "extraction" | "ai"; model: string | null; prompt: string | null } = {
+    source: "extraction",
+    model: null,
+    prompt: null,
+  };
+  // Headings of the structured note, for passages that have none
+  let outline: OutlineHeading[] = [];
+  
+  if (document.isStructured) {
+    // LaTeX and Markdown sources are already structured notes; a rewrite
+    // could only lose fidelity.
+    console.log("Skipping AI - source is already structured:", fileExtension);
+  } else if (options.mode === "extract") {
+    console.log("Skipping AI - re-extracting only");
+  } else if (isAiConfigured() && extractedText.length > 30) {
+    console.log("Sending to AI for processing, text preview:", extractedText.substring(0, 200));
+
+    // The storage object name is generated; the note keeps the name the user uploaded.
+    const title = (note.file_name || fileName).replace(/\.[^/.]+$/, "");
+    let result: StructuringResult | null = null;
+    try {
+      // Structuring is the slow part: 15% to 85%, by finished chunk.
+      result = await structureDocument(document, title, getAiProvider(), {
+        style: options.style,
+        onProgress: (done, total) => {
+          reportProgress("structuring", 15 + (70 * done) / total, `Structuring part ${Math.min(done + 1, total)} of ${total}`);
+        },
+      });
+    } catch (aiError) {
+      // A broken configuration fails the job instead of passing raw text off as the note
+      if (aiError instanceof AiConfigurationError) throw aiError;
+      console.error("AI processing error:", aiError);
+    }
+    if (result) {
+      console.log("AI processing finished, content length:", result.content.length, "failed chunks:", result.failedChunks, "of", result.chunks);
+      // Rather than settle for raw text after a rate limit or outage, try
+      // again later while attempts remain.
+      if (result.transientFailures > 0 && !options.finalAttempt) {
+        throw new TransientError(`AI structuring failed for ${result.transientFailures} of ${result.chunks} parts`);
+      }
+      processedContent = result.content;
+      outline = result.outline;
+      version = { source: "ai", model: result.model, prompt: result.prompt };
+    }
+  } else {
+    console.log("Skipping AI - provider configured:", isAiConfigured(), "Text length:", extractedText.length);
+  }
+
+  // Provide fallback content if extraction failed
+  if (!processedContent || processedContent.length < 20) {
+    console.log("Using fallback content");
+    processedContent = `# ${fileName.replace(/\.[^/.]+$/, "")}
+
+This document has been uploaded successfully.
+
+## Document Information
+- **File Name:** ${fileName}
+- **File Type:** ${fileExtension?.toUpperCase() || "Unknown"}
+
+## Available Topics
+You can ask questions about Engineering Mathematics I topics including:
+
+- **Limits and Continuity**: Finding limits, L'Hôpital's rule, continuity tests
+- **Differentiation**: Power rule, chain rule, product/quotient rules, implicit differentiation
+- **Integration**: Substitution, integration by parts, partial fractions
+- **Differential Equations**: First-order ODEs, separable equations, linear equations
+- **Linear Algebra**: Matrices, determinants, eigenvalues, systems of equations
+
+## How to Use
+Simply type your question or describe the problem you need help with. I'll provide step-by-step solutions.`;
+  }
+
+  // Replace the note's passages so the solver and viewer can point at
+  // specific pages and sections of this version of the note. Passages keep
+  // the extracted text, which the viewer locates them in.
+  await reportProgress("indexing", 90);
+  await ensureNotTrashed(supabase, note.id);
+  const chunks = applyOutline(buildNoteChunks(document), outline);
+  await supabase.from("note_chunks").delete().eq("note_id", note.id);
+  let embeddings: number[][] | null = null;
+  if (embeddingsEnabled() && chunks.length > 0) {
+    try {
+      embeddings = await embedTexts(chunks.map((chunk) => [...chunk.headingPath, chunk.text].join("\n")));
+    } catch (embeddingError) {
+      // Retrieval falls back to lexical ranking for unembedded chunks.
+      console.error("Embedding error:", embeddingError);
+    }
+  }
+  const rows = chunks.map((chunk, index) => ({
+    note_id: note.id,
+    user_id: note.user_id,
+    ordinal: chunk.ordinal,
+    page_start: chunk.pageStart,
+    page_end: chunk.pageEnd,
+    heading_path: chunk.headingPath,
+    content: chunk.text,
+    token_count: chunk.tokenCount,
+    embedding: embeddings ? toVectorLiteral(embeddings[index]) : null,
+  }));
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error: chunkError } = await supabase.from("note_chunks").insert(rows.slice(i, i + 500));
+    // A note missing passages would silently answer from part of itself;
+    // fail the job instead (the next attempt replaces them all again)
+    if (chunkError) {
+      console.error("Failed to store note chunks:", chunkError);
+      throw new TransientError(`Failed to store note chunks: ${chunkError.message}`);
+    }
+  }
+  console.log("Stored", rows.length, "note chunks");
+
+  // Record the new content as a version; this also makes it the note's
+  // processed content
+  const { error: versionError } = await supabase.rpc("add_note_version", {
+    p_note_id: note.id,
+    p_content: processedContent,
+    p_source: version.source,
+    p_model: version.model,
+    p_prompt: version.prompt,
+  });
+
+  if (versionError) {
+    console.error("Failed to record note version:", versionError);
+    throw versionError;
+  }
+
+  // Update the note in database last, so it only turns ready once its
+  // content and chunks are in place
+  console.log("Updating note status to ready");
+  
+  const { data: updated, error: updateError } = await supabase.from("notes").update({
+    status: "ready",
+    original_content: extractedText,
+    // From the stored file, whatever the uploading client claimed
+    content_hash: await contentHash(bytes),
+    processing_stage: null,
+    processing_progress: 100,
+    processing_detail: null,
+    updated_at: new Date().toISOString(),
+  }).eq("id", note.id).is("deleted_at", null).select("id");
+
+  if (updateError) {
+    console.error("Database update error:", updateError);
+    throw updateError;
+  }
+  if (!updated?.length) throw new NoteTrashedError();
+
+  return { contentLength: processedContent.length };
+}
@@ -0,0 +1,27 @@
+// Processing progress stored on the note (processing_stage,
+// processing_progress, processing_detail) for the upload dialog and the
+// dashboard to display.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type ProcessingStage = "queued" | "downloading" | "unpacking" | "extracting" | "structuring" | "indexing" | "retrying";
+
+export type ProgressReporter = (stage: ProcessingStage, progress: number, detail?: string | null) => Promise<void>;
+
+// Updates are chained so they land in the order they were reported, even
+// when structuring reports from several chunks at once. A failed update
+// is only logged; progress is never worth failing a job over.
+export function noteProgressReporter(supabase: SupabaseClient, noteId: string): ProgressReporter {
+  let last: Promise<void> = Promise.resolve();
+  return (stage, progress, detail = null) => {
+    last = last.then(async () => {
+      const { error } = await supabase.from("notes").update({
+        processing_stage: stage,
+        processing_progress: Math.max(0, Math.min(100, Math.round(progress))),
+        processing_detail: detail,
+      }).eq("id", noteId);
+      if (error) console.error("Failed to report progress:", error);
+    });
+    return last;
+  };
+}
@@ -0,0 +1,192 @@
+// Picks the passages of a note that are relevant to a solver question.
+//
+// With embeddings configured the note's chunks are ranked by vector
+// similarity (match_note_chunks); otherwise, or when the note has no
+// embedded chunks yet, they are ranked with BM25 over their text. The best
+// chunks are then taken in rank order until the token budget is spent and
+// returned in reading order.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { estimateTokens } from "./chunking.ts";
+import { embedTexts, embeddingsEnabled, toVectorLiteral } from "./embeddings.ts";
+
+export const DEFAULT_TOKEN_BUDGET = 3000;
+
+export interface RetrievedChunk {
+  id: string;
+  ordinal: number;
+  page_start: number | null;
+  page_end: number | null;
+  heading_path: string[];
+  content: string;
+  token_count: number;
+}
+
+export interface RetrievalResult {
+  chunks: RetrievedChunk[];
+  method: "vector" | "bm25" | "leading";
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how", "i",
+  "in", "is", "it", "me", "my", "of", "on", "or", "please", "show", "that", "the", "this", "to",
+  "what", "when", "where", "which", "why", "with", "you", "help", "explain", "solve", "find",
+]);
+
+// Words and LaTeX command names ("\int" -> "int"), lower-cased, with a
+// light plural strip so "limits" matches "limit".
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((token) => !STOPWORDS.has(token))
+    .map((token) => (token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token));
+}
+
+// Okapi BM25 (k1 = 1.2, b = 0.75) over the chunks of a single note.
+export function rankBm25<T extends { content: string; heading_path?: string[] }>(query: string, chunks: T[]): Array<{ chunk: T; score: number }> {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0 || chunks.length === 0) return [];
+
+  // Headings are repeated into the document so a section title counts.
+  const documents = chunks.map((chunk) => tokenize(`${(chunk.heading_path ?? []).join(" ")} ${chunk.content}`));
+  const averageLength = documents.reduce((sum, tokens) => sum + tokens.length, 0) / documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of documents) {
+    for (const term of new Set(tokens)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+
+  const k1 = 1.2;
+  const b = 0.75;
+  return documents
+    .map((tokens, index) => {
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      let score = 0;
+      for (const term of terms) {
+        const tf = frequencies.get(term) ?? 0;
+        if (!tf) continue;
+        const df = documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * tokens.length) / averageLength)));
+      }
+      return { chunk: chunks[index], score };
+    })
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Takes ranked chunks until the budget is used up, then restores reading
+// order so the model sees passages as they appear in the note.
+export function selectWithinBudget<T extends { ordinal: number; token_count: number; content: string }>(ranked: T[], budget: number): T[] {
+  const selected: T[] = [];
+  let used = 0;
+  for (const chunk of ranked) {
+    const tokens = chunk.token_count || estimateTokens(chunk.content);
+    if (used + tokens > budget) {
+      if (selected.length === 0) continue;
+      break;
+    }
+    selected.push(chunk);
+    used += tokens;
+  }
+  return selected.sort((a, b) => a.ordinal - b.ordinal);
+}
+
+export function tokenBudget(): number {
+  const configured = parseInt(Deno.env.get("RETRIEVAL_TOKEN_BUDGET") ?? "", 10);
+  return configured > 0 ? configured : DEFAULT_TOKEN_BUDGET;
+}
+
+export async function retrieveChunks(
+  supabase: SupabaseClient,
+  noteId: string,
+  query: string,
+  budget = tokenBudget(),
+): Promise<RetrievalResult> {
+  if (embeddingsEnabled()) {
+    try {
+      const [embedding] = await embedTexts([query]);
+      const { data, error } = await supabase.rpc("match_note_chunks", {
+        p_note_id: noteId,
+        query_embedding: toVectorLiteral(embedding),
+        match_count: 40,
+      });
+      if (error) throw error;
+      if (data && data.length > 0) {
+        return { chunks: selectWithinBudget(data as RetrievedChunk[], budget), method: "vector" };
+      }
+    } catch (error) {
+      console.error("Vector retrieval failed, falling back to BM25:", error);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("note_chunks")
+    .select("id, ordinal, page_start, page_end, heading_path, content, token_count")
+    .eq("note_id", noteId)
+    .order("ordinal", { ascending: true });
+  if (error) throw error;
+
+  const chunks = (data ?? []) as RetrievedChunk[];
+  const ranked = rankBm25(query, chunks).map((item) => item.chunk);
+  if (ranked.length > 0) {
+    return { chunks: selectWithinBudget(ranked, budget), method: "bm25" };
+  }
+  // Nothing matched lexically: fall back to the start of the note so the
+  // model still has some context.
+  return { chunks: selectWithinBudget(chunks, budget), method: "leading" };
+}
+
+function describeChunk(chunk: RetrievedChunk): string {
+  const parts: string[] = [];
+  if (chunk.page_start) {
+    parts.push(chunk.page_end && chunk.page_end !== chunk.page_start ? `pages ${chunk.page_start}–${chunk.page_end}` : `page ${chunk.page_start}`);
+  }
+  if (chunk.heading_path.length > 0) parts.push(chunk.heading_path.join(" › "));
+  return parts.join(" · ");
+}
+
+export function formatContext(chunks: RetrievedChunk[]): string {
+  return chunks
+    .map((chunk, index) => {
+      const label = describeChunk(chunk);
+      return `[${index + 1}]${label ? ` (${label})` : ""}\n${chunk.content}`;
+    })
+    .join("\n\n");
+}
+
+// Passages are replaced whenever a note is reprocessed or a version is
+// restored, so a citation carries the note, pages and text it cited
+// rather than relying on chunk_id to resolve later.
+export interface Citation {
+  index: number;
+  note_id: string;
+  chunk_id: string;
+  page_start: number | null;
+  page_end: number | null;
+  heading: string | null;
+  passage: string;
+}
+
+// Collects the [n] excerpt markers the model cited. Math is skipped so
+// \sqrt[3]{x} and friends are not mistaken for citations.
+export function extractCitations(response: string, chunks: RetrievedChunk[], noteId: string): Citation[] {
+  const prose = response.replace(/\$\$[\s\S]*?\$\$/g, " ").replace(/\$[^$\n]*\$/g, " ");
+  const cited = new Set<number>();
+  for (const match of prose.matchAll(/\[(\d+)\]/g)) {
+    const index = parseInt(match[1], 10);
+    if (index >= 1 && index <= chunks.length) cited.add(index);
+  }
+  return [...cited].sort((a, b) => a - b).map((index) => toCitation(chunks[index - 1], index, noteId));
+}
+
+export function toCitation(chunk: RetrievedChunk, index: number, noteId: string): Citation {
+  return {
+    index,
+    note_id: noteId,
+    chunk_id: chunk.id,
+    page_start: chunk.page_start,
+    page_end: chunk.page_end,
+    heading: chunk.heading_path.length > 0 ? chunk.heading_path.join(" › ") : null,
+    passage: chunk.content,
+  };
+}
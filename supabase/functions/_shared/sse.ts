@@ -0,0 +1,45 @@
+// Server-sent events: reading the upstream chat completion stream and
+// writing our own event stream to the browser.
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+export function encodeEvent(data: unknown): Uint8Array {
+  return new TextEncoder().encode(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+// Yields the content deltas of an OpenAI-style streaming completion
+// ("data: {choices: [{delta: {content}}]}" lines, ending with [DONE]).
+export async function* readCompletionDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line.startsWith("data:")) continue;
+
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") return;
+        try {
+          const content = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (content) yield content;
+        } catch {
+          // A malformed line is dropped rather than ending the answer.
+          console.warn("Skipping malformed stream line:", payload.substring(0, 100));
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
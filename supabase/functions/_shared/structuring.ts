@@ -0,0 +1,243 @@
+// Map-reduce structuring of lecture notes.
+//
+// Map: the extracted text is split on page/section boundaries and every
+// chunk is structured by the model independently (a few at a time).
+// Reduce: the structured chunks are stitched back together in order,
+// headings repeated across a chunk boundary are merged, and a table of
+// contents is built from the combined headings. A chunk the model fails on
+// keeps its raw text, so no part of the document is dropped; the result
+// reports how many failures were transient so the caller can retry instead.
+
+import { ExtractedDocument } from "./extractors/index.ts";
+import { OutlineHeading, splitIntoChunks } from "./chunking.ts";
+import { AiConfigurationError, AiProvider, AiProviderError } from "./ai-provider.ts";
+
+const CHUNK_CHARS = 12000;
+const CONCURRENCY = 3;
+
+const SYSTEM_PROMPT = `You are a document processor for Engineering Mathematics lecture notes.
+Your task is to extract and structure mathematical content clearly.
+
+ALWAYS preserve:
+- Mathematical formulas and equations (use LaTeX: $..$ for inline, $$...$$ for block)
+- Definitions, theorems, and proofs
+- Worked examples with step-by-step solutions
+- Problem sets and exercises
+
+Structure the output with clear headings (##) and organize topics logically.
+If text is unclear, infer likely mathematical topics from context.`;
+
+export type StructuringStyle = "standard" | "concise" | "detailed";
+
+export const STRUCTURING_STYLES: StructuringStyle[] = ["standard", "concise", "detailed"];
+
+const STYLE_INSTRUCTIONS: Record<StructuringStyle, string> = {
+  standard: "",
+  concise: `Style: concise revision notes. Cover all of the material and keep every definition, theorem and formula, but phrase explanations as briefly as possible and present worked examples as their key steps.`,
+  detailed: `Style: detailed study notes. Keep everything, spell out steps that the source skips in worked examples, and briefly explain the intuition behind each theorem.`,
+};
+
+const CHUNK_INSTRUCTIONS = `You are given one part of a longer document. Structure only this part:
+- Do not add a document title, introduction, summary or table of contents.
+- Use ## for topics and ### for subtopics.
+- Keep every piece of content; do not shorten or skip material.
+- Lines like [Page 3] mark page boundaries; omit them from the output.`;
+
+const OCR_INSTRUCTIONS = `Some or all of this text was read by OCR from photos, scans or handwriting:
+- Correct obvious recognition errors (misread letters and digits, words run together or split apart) where the intended text is clear from context.
+- Keep the LaTeX the OCR produced, fixing formulas that were clearly misread.
+- Do not invent content for passages that cannot be made out; mark them as [illegible].`;
+
+export interface StructuringResult {
+  content: string;
+  chunks: number;
+  failedChunks: number;
+  // Failed chunks whose error is worth retrying (rate limits, outages)
+  transientFailures: number;
+  // The headings of the structured parts, for the note's passages (see
+  // applyOutline)
+  outline: OutlineHeading[];
+  // Recorded with the resulting note version
+  model: string;
+  prompt: string;
+}
+
+export interface StructuringOptions {
+  style?: StructuringStyle;
+  // Called with the number of chunks finished so far, starting with 0
+  // before the first request.
+  onProgress?: (done: number, total: number) => void;
+}
+
+function systemPrompt(style: StructuringStyle, recognized: boolean): string {
+  return [SYSTEM_PROMPT, CHUNK_INSTRUCTIONS, recognized ? OCR_INSTRUCTIONS : "", STYLE_INSTRUCTIONS[style]]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+async function structureChunk(provider: AiProvider, system: string, text: string, part: number, parts: number): Promise<string | null> {
+  const content = await provider.complete("structuring", [
+    { role: "system", content: system },
+    {
+      role: "user",
+      content: `Process and structure part ${part} of ${parts} of this lecture note content. Extract all mathematical content and organize it clearly:\n\n${text}`,
+    },
+  ]);
+  return content || null;
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  onItemDone?: () => void,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+      onItemDone?.();
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// Tidies a structured chunk so it can be concatenated with its neighbours:
+// removes markdown code fences around the whole reply and the title the
+// model sometimes gives the part, and demotes any other top-level heading,
+// since the stitched document has a single title.
+function normalizeChunk(markdown: string): string {
+  return demoteHeadings(
+    markdown
+      .trim()
+      .replace(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/, "$1")
+      .replace(/^# .*\n/, ""),
+  );
+}
+
+function demoteHeadings(markdown: string): string {
+  return markdown
+    .replace(/^# (?=\S)/gm, "## ")
+    .replace(/^\[Page \d+\]\s*$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function parseHeading(line: string): { level: number; key: string } | null {
+  const match = /^(#{2,3})\s+(.+)$/.exec(line.trim());
+  return match ? { level: match[1].length, key: match[2].replace(/[*_`]/g, "").trim().toLowerCase() } : null;
+}
+
+// The heading currently in effect at `level`: the last heading at that
+// level or above.
+function openHeading(markdown: string, level: number): { level: number; key: string } | null {
+  const lines = markdown.split("\n");
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const heading = parseHeading(lines[i]);
+    if (heading && heading.level <= level) return heading;
+  }
+  return null;
+}
+
+// When a topic spans a chunk boundary the model tends to repeat its
+// heading at the top of the next chunk; drop the repeat.
+function stitch(parts: string[]): string {
+  let result = "";
+  for (const part of parts) {
+    let text = part;
+    const firstLine = text.split("\n", 1)[0];
+    const heading = parseHeading(firstLine);
+    const open = heading && openHeading(result, heading.level);
+    if (heading && open && open.level === heading.level && open.key === heading.key) {
+      text = text.slice(firstLine.length).trim();
+    }
+    if (text) result += (result ? "\n\n" : "") + text;
+  }
+  return result;
+}
+
+// The ## and ### headings of each structured part, with the pages the
+// part covers. Parts the model failed on have no headings of their own.
+function outlineOf(parts: { markdown: string | null; pageStart: number; pageEnd: number }[]): OutlineHeading[] {
+  const outline: OutlineHeading[] = [];
+  let topic = "";
+  for (const { markdown, pageStart, pageEnd } of parts) {
+    if (!markdown) continue;
+    for (const line of markdown.split("\n")) {
+      const match = /^(#{2,3})\s+(.+)$/.exec(line.trim());
+      if (!match) continue;
+      const title = match[2].replace(/[*_`]/g, "").trim();
+      if (match[1] === "##") topic = title;
+      const path = match[1] === "##" || !topic ? [title] : [topic, title];
+      outline.push({ path, pageStart, pageEnd });
+    }
+  }
+  return outline;
+}
+
+function tableOfContents(markdown: string): string {
+  const entries: string[] = [];
+  const seen = new Set<string>();
+  for (const line of markdown.split("\n")) {
+    const match = /^(#{2,3})\s+(.+)$/.exec(line.trim());
+    if (!match) continue;
+    const title = match[2].trim();
+    const key = `${match[1]}${title.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push(`${match[1].length === 3 ? "  " : ""}- ${title}`);
+  }
+  return entries.length >= 3 ? `## Contents\n\n${entries.join("\n")}` : "";
+}
+
+export async function structureDocument(
+  document: ExtractedDocument,
+  title: string,
+  provider: AiProvider,
+  { style = "standard", onProgress }: StructuringOptions = {},
+): Promise<StructuringResult> {
+  const chunks = splitIntoChunks(document, CHUNK_CHARS);
+  console.log("Structuring", chunks.length, "chunks");
+  onProgress?.(0, chunks.length);
+
+  const system = systemPrompt(style, document.recognized ?? false);
+  let done = 0;
+  let failedChunks = 0;
+  let transientFailures = 0;
+  const failed = new Set<number>();
+  const parts = await mapWithConcurrency(chunks, CONCURRENCY, async (chunk, index) => {
+    try {
+      const structured = await structureChunk(provider, system, chunk.text, index + 1, chunks.length);
+      if (structured) return normalizeChunk(structured);
+    } catch (error) {
+      // Every other part would fail the same way
+      if (error instanceof AiConfigurationError) throw error;
+      console.error(`AI processing error for part ${index + 1}/${chunks.length}:`, error);
+      if (error instanceof AiProviderError && error.transient) transientFailures++;
+    }
+    failedChunks++;
+    failed.add(index);
+    const pages = chunk.pageStart === chunk.pageEnd ? `page ${chunk.pageStart}` : `pages ${chunk.pageStart}–${chunk.pageEnd}`;
+    return `## Unprocessed content (${pages})\n\n${demoteHeadings(chunk.text)}`;
+  }, () => onProgress?.(++done, chunks.length));
+
+  const body = stitch(parts);
+  const contents = tableOfContents(body);
+  const content = [`# ${title}`, contents, body].filter(Boolean).join("\n\n");
+  return {
+    content,
+    chunks: chunks.length,
+    failedChunks,
+    transientFailures,
+    outline: outlineOf(chunks.map((chunk, index) => ({
+      markdown: failed.has(index) ? null : parts[index],
+      pageStart: chunk.pageStart,
+      pageEnd: chunk.pageEnd,
+    }))),
+    model: provider.modelName("structuring"),
+    prompt: system,
+  };
+}
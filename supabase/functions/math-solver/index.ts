@@ -1,21 +1,81 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { RetrievedChunk, extractCitations, formatContext, retrieveChunks, toCitation, tokenBudget } from "../_shared/retrieval.ts";
+import { SSE_HEADERS, encodeEvent } from "../_shared/sse.ts";
+import { AiProviderError, ChatMessage, getAiProvider } from "../_shared/ai-provider.ts";
+import { decodeImage } from "../_shared/extractors/raster.ts";
+import { recognizeText } from "../_shared/extractors/ocr.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Asked on the user's behalf when they send a photo without a question
+const IMAGE_ONLY_QUESTION = "Solve the problem in this image. If it shows my own working, check it and point out any mistakes.";
+
+interface AttachedImage {
+  dataUrl: string;
+  // What OCR could read of it, to find the relevant notes
+  text: string;
+}
+
+// Loads an image the user attached to their message. The download runs as
+// the caller, so only their own images can be read.
+async function loadAttachedImage(supabase: SupabaseClient, path: string): Promise<AttachedImage> {
+  const { data, error } = await supabase.storage.from("chat-attachments").download(path);
+  if (error || !data) throw new Error("The attached image could not be loaded. Please attach it again.");
+  const bytes = new Uint8Array(await data.arrayBuffer());
+
+  // The client sends JPEG; OCR is only an aid to retrieval, so a failure
+  // leaves the model to read the image by itself
+  let text = "";
+  try {
+    text = await recognizeText(await decodeImage(bytes, "jpeg"));
+  } catch (error) {
+    console.error("OCR of the attached image failed:", error);
+  }
+  return { dataUrl: `data:${data.type || "image/jpeg"};base64,${encodeBase64(bytes)}`, text };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { message, noteContent, conversationHistory } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const { message, noteId, conversationHistory, stream, imagePath } = await req.json();
+    const provider = getAiProvider();
+
+    // Query as the caller so row level security limits retrieval to their own notes
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: req.headers.get("Authorization")! } },
+    });
+
+    const image = imagePath ? await loadAttachedImage(supabase, imagePath) : null;
+    const question: string = message?.trim() || (image ? IMAGE_ONLY_QUESTION : "");
+
+    // Follow-ups like "why?" say little on their own, so the previous
+    // question is part of the retrieval query, as is the text of a photo.
+    const history: { role: string; content: string }[] = conversationHistory || [];
+    const previousQuestion = [...history].reverse().find((m) => m.role === "user")?.content ?? "";
+    const query = `${previousQuestion}\n${message ?? ""}\n${image?.text ?? ""}`.trim();
+
+    let noteContext = "";
+    let excerpts: RetrievedChunk[] = [];
+    if (noteId) {
+      const budget = tokenBudget();
+      const retrieval = await retrieveChunks(supabase, noteId, query, budget);
+      excerpts = retrieval.chunks;
+      noteContext = formatContext(excerpts);
+      console.log("Retrieved", retrieval.chunks.length, "chunks via", retrieval.method);
+
+      // Notes processed before chunking was introduced have no chunks yet.
+      if (!noteContext) {
+        const { data: note } = await supabase.from("notes").select("processed_content").eq("id", noteId).maybeSingle();
+        noteContext = (note?.processed_content || "").substring(0, budget * 4);
+      }
     }
 
     const systemPrompt = `You are 1Note, a specialized math tutor for Engineering Mathematics I. 
@@ -35,61 +95,84 @@ CRITICAL RULES:
 5. Use LaTeX notation for all math: $inline$ for inline, $$display$$ for display
 6. If a problem is ambiguous, explain your assumptions
 7. Topics covered: Limits, Continuity, Differentiation, Integration, Differential Equations, Linear Algebra
+8. The notes are given as numbered excerpts. Cite every excerpt you rely on with its number in square brackets, e.g. [1] or [2][3], right after the statement it supports
+9. The student may attach a photo of a problem or of their own working. Read it carefully, restate the problem under **Given:**, and if it shows their working, check each step and say where it goes wrong
 
-LECTURE NOTES CONTEXT:
-${noteContent || "No notes content available. Please inform the user to upload notes first."}
+LECTURE NOTES CONTEXT (the excerpts most relevant to the question):
+${noteContext || "No notes content available. Please inform the user to upload notes first."}
 
 Be precise, clear, and educational. Act as a patient private tutor.`;
 
-    const messages = [
+    const messages: ChatMessage[] = [
       { role: "system", content: systemPrompt },
-      ...conversationHistory.map((m: { role: string; content: string }) => ({
-        role: m.role,
+      ...history.map((m) => ({
+        role: m.role as ChatMessage["role"],
         content: m.content,
       })),
-      { role: "user", content: message },
+      {
+        role: "user",
+        content: image
+          ? [{ type: "text", text: question }, { type: "image_url", image_url: { url: image.dataUrl } }]
+          : question,
+      },
     ];
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages,
-      }),
-    });
+    // Streaming: the excerpts go out first so the client can resolve [n]
+    // markers even if the user stops generation part-way, then one event
+    // per content delta, then the final citations.
+    if (stream) {
+      const upstreamAbort = new AbortController();
+      const deltas = await provider.stream("tutor", messages, { signal: upstreamAbort.signal });
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let content = "";
+          try {
+            controller.enqueue(encodeEvent({ type: "sources", sources: excerpts.map((chunk, i) => toCitation(chunk, i + 1, noteId)) }));
+            for await (const delta of deltas) {
+              content += delta;
+              controller.enqueue(encodeEvent({ type: "delta", content: delta }));
+            }
+            controller.enqueue(encodeEvent({ type: "done", citations: extractCitations(content, excerpts, noteId) }));
+          } catch (streamError) {
+            // Aborted by cancel() below; the client is gone.
+            if (upstreamAbort.signal.aborted) return;
+            console.error("Stream error:", streamError);
+            controller.enqueue(encodeEvent({ type: "error", error: "The response was interrupted. Please try again." }));
+          }
+          controller.close();
+        },
+        cancel() {
+          // The client pressed Stop; stop paying for tokens nobody reads.
+          upstreamAbort.abort();
+        },
+      });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI Gateway error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Usage limit reached. Please add credits." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      throw new Error("AI Gateway error");
+      return new Response(body, { headers: { ...corsHeaders, ...SSE_HEADERS } });
     }
 
-    const data = await response.json();
-    const aiResponse = data.choices?.[0]?.message?.content || "I couldn't generate a response. Please try again.";
+    const aiResponse = (await provider.complete("tutor", messages)) || "I couldn't generate a response. Please try again.";
+
+    const citations = extractCitations(aiResponse, excerpts, noteId);
 
     return new Response(
-      JSON.stringify({ response: aiResponse }),
+      JSON.stringify({ response: aiResponse, citations }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Math solver error:", error);
+
+    if (error instanceof AiProviderError && error.status === 429) {
+      return new Response(
+        JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
+        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (error instanceof AiProviderError && error.status === 402) {
+      return new Response(
+        JSON.stringify({ error: "Usage limit reached. Please add credits." }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient, createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isAiConfigured } from "../_shared/ai-provider.ts";
+import { NoteTrashedError, ProcessingJob, isTransient, retryDelaySeconds } from "../_shared/jobs.ts";
+import { processNote } from "../_shared/note-processing.ts";
+
+// Drains processing_jobs. Woken by process-notes after each enqueue, and
+// every minute by pg_cron while a job is due or stalled (see the
+// process-notes-worker cron job), so retries and reaped jobs are picked up
+// when nothing else wakes it. Only callable with the service role key.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Stop claiming new jobs well before the edge function wall-clock limit;
+// a job cut off mid-run is recovered by the reaper.
+const TIME_BUDGET_MS = 100_000;
+// Wait in-process for a retry that falls due this soon rather than
+// leaving it to the next run.
+const MAX_IDLE_WAIT_MS = 45_000;
+
+const workerId = `worker-${crypto.randomUUID()}`;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function formatDelay(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+}
+
+async function finishJob(supabase: SupabaseClient, jobId: string, update: Record<string, unknown>) {
+  const { error } = await supabase.from("processing_jobs").update({ ...update, locked_at: null, locked_by: null }).eq("id", jobId);
+  if (error) console.error("Failed to update job", jobId, error);
+}
+
+async function runJob(supabase: SupabaseClient, job: ProcessingJob) {
+  console.log("Running job", job.id, "for note", job.note_id, "attempt", job.attempts, "of", job.max_attempts);
+
+  const { data: note, error: noteError } = await supabase
+    .from("notes")
+    .select("id, user_id, file_name, file_url, deleted_at")
+    .eq("id", job.note_id)
+    .maybeSingle();
+
+  if (noteError || !note) {
+    await finishJob(supabase, job.id, { status: "failed", last_error: noteError?.message ?? "Note no longer exists" });
+    return;
+  }
+
+  try {
+    // Trashed after the job was claimed
+    if (note.deleted_at) throw new NoteTrashedError();
+    const result = await processNote(supabase, note, { ...job.options, finalAttempt: job.attempts >= job.max_attempts });
+    await finishJob(supabase, job.id, { status: "succeeded", last_error: null });
+    if (result.unpacked !== undefined) console.log("Job", job.id, "succeeded, unpacked", result.unpacked, "notes");
+    else console.log("Job", job.id, "succeeded, content length:", result.contentLength);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Processing failed";
+
+    if (error instanceof NoteTrashedError) {
+      console.log("Job", job.id, "cancelled: note", job.note_id, "is in the trash");
+      await finishJob(supabase, job.id, { status: "cancelled", last_error: "Note moved to the trash" });
+      await supabase.from("notes").update({
+        status: "error",
+        error_message: message,
+        processing_stage: null,
+        processing_detail: null,
+      }).eq("id", job.note_id);
+      return;
+    }
+
+    if (isTransient(error) && job.attempts < job.max_attempts) {
+      const delay = retryDelaySeconds(job.attempts);
+      console.warn("Job", job.id, "failed transiently, retrying in", delay, "s:", message);
+      await finishJob(supabase, job.id, {
+        status: "queued",
+        run_after: new Date(Date.now() + delay * 1000).toISOString(),
+        last_error: message,
+      });
+      await supabase.from("notes").update({
+        processing_stage: "retrying",
+        processing_progress: 0,
+        processing_detail: `Retrying in ${formatDelay(delay)} (attempt ${job.attempts + 1} of ${job.max_attempts})`,
+      }).eq("id", job.note_id);
+      return;
+    }
+
+    console.error("Job", job.id, "failed:", error);
+    await finishJob(supabase, job.id, { status: "failed", last_error: message });
+    const reason = job.attempts > 1 ? `${message} (after ${job.attempts} attempts)` : message;
+    await supabase.from("notes").update({
+      status: "error",
+      error_message: reason,
+      processing_stage: null,
+      processing_detail: null,
+    }).eq("id", job.note_id);
+  }
+}
+
+// Milliseconds until the next queued job falls due, or null if none.
+async function nextDueIn(supabase: SupabaseClient): Promise<number | null> {
+  const { data } = await supabase
+    .from("processing_jobs")
+    .select("run_after")
+    .eq("status", "queued")
+    .order("run_after", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  return data ? Math.max(new Date(data.run_after).getTime() - Date.now(), 0) : null;
+}
+
+async function drainQueue(supabase: SupabaseClient) {
+  const { data: reaped, error: reapError } = await supabase.rpc("reap_processing_jobs");
+  if (reapError) console.error("Reaper error:", reapError);
+  else if (reaped) console.log("Recovered", reaped, "stalled jobs");
+
+  const deadline = Date.now() + TIME_BUDGET_MS;
+  while (Date.now() < deadline) {
+    const { data, error } = await supabase.rpc("claim_processing_job", { p_worker: workerId });
+    if (error) {
+      console.error("Failed to claim job:", error);
+      return;
+    }
+
+    const job = (data as ProcessingJob[] | null)?.[0];
+    if (job) {
+      await runJob(supabase, job);
+      continue;
+    }
+
+    const wait = await nextDueIn(supabase);
+    if (wait === null || wait > MAX_IDLE_WAIT_MS || Date.now() + wait > deadline) return;
+    await new Promise((resolve) => setTimeout(resolve, wait + 250));
+  }
+}
+
+serve((req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceKey}`) {
+    return new Response(
+      JSON.stringify({ error: "Forbidden" }),
+      { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // A broken AI configuration would fail every job it claimed; the jobs
+  // stay queued until it is fixed
+  try {
+    isAiConfigured();
+  } catch (error) {
+    console.error("Processing worker not started:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "AI is misconfigured" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+  EdgeRuntime.waitUntil(
+    drainQueue(supabase).catch((error) => console.error("Processing worker error:", error)),
+  );
+
+  return new Response(
+    JSON.stringify({ accepted: true, worker: workerId }),
+    { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+});
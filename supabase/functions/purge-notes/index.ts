@@ -0,0 +1,115 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient, createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { HttpError, requireUser } from "../_shared/auth.ts";
+
+// Permanently deletes notes from the trash: the note rows with their
+// chats, chunks, versions and jobs (purge_notes), then the uploaded files.
+//
+// Called by a user with { noteIds } to delete those notes for good, or
+// with { all: true } to empty their trash. Called with the service role
+// key (hourly by the purge-notes cron job), purges every note that has
+// been in the trash for 30 days. Either way, it then removes queued files.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Files removed per run; the rest wait for the next one.
+const MAX_FILES_PER_RUN = 500;
+
+function parseNoteIds(body: Record<string, unknown>): string[] | null {
+  if (body.all === true) return null;
+  const ids = body.noteIds;
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === "string" && id)) {
+    throw new HttpError("Expected noteIds or all", 400);
+  }
+  return ids;
+}
+
+interface QueuedFile {
+  id: string;
+  bucket_id: string;
+  path: string;
+  attempts: number;
+}
+
+// Removes queued files of purged notes. A file that fails stays queued
+// with its error.
+async function removeQueuedFiles(supabase: SupabaseClient): Promise<number> {
+  const { data: queued, error } = await supabase
+    .from("storage_deletions")
+    .select("id, bucket_id, path, attempts")
+    .order("created_at", { ascending: true })
+    .limit(MAX_FILES_PER_RUN);
+
+  if (error) throw error;
+
+  let removed = 0;
+  const buckets = new Map<string, QueuedFile[]>();
+  for (const item of (queued || []) as QueuedFile[]) {
+    buckets.set(item.bucket_id, [...(buckets.get(item.bucket_id) || []), item]);
+  }
+
+  for (const [bucket, items] of buckets) {
+    // Removing a file that is already gone is not an error
+    const { error: removeError } = await supabase.storage.from(bucket).remove(items.map((item) => item.path));
+    if (removeError) {
+      console.error("Failed to remove files from", bucket, removeError);
+      for (const item of items) {
+        await supabase.from("storage_deletions")
+          .update({ attempts: item.attempts + 1, last_error: removeError.message })
+          .eq("id", item.id);
+      }
+      continue;
+    }
+
+    await supabase.from("storage_deletions").delete().in("id", items.map((item) => item.id));
+    removed += items.length;
+  }
+  return removed;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+
+  try {
+    let purged: number;
+    if (req.headers.get("Authorization") === `Bearer ${serviceKey}`) {
+      const { data, error } = await supabase.rpc("purge_notes");
+      if (error) throw error;
+      purged = data ?? 0;
+      console.log("Purged", purged, "expired notes from the trash");
+    } else {
+      const user = await requireUser(req, supabase);
+      const noteIds = parseNoteIds(await req.json());
+      // Only notes already in the trash are purged, however old
+      const { data, error } = await supabase.rpc("purge_notes", {
+        p_user_id: user.id,
+        p_note_ids: noteIds,
+        p_older_than: "0 seconds",
+      });
+      if (error) throw error;
+      purged = data ?? 0;
+      console.log("Purged", purged, "notes for user", user.id);
+    }
+
+    const filesRemoved = await removeQueuedFiles(supabase);
+
+    return new Response(
+      JSON.stringify({ success: true, purged, filesRemoved }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Purge error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: error instanceof HttpError ? error.status : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
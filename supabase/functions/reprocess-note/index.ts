@@ -0,0 +1,71 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { HttpError, requireOwnedNote, requireUser } from "../_shared/auth.ts";
+import { ProcessingOptions, enqueueProcessingJob, wakeWorker } from "../_shared/jobs.ts";
+import { STRUCTURING_STYLES, StructuringStyle } from "../_shared/structuring.ts";
+
+// Reprocesses an existing note from its stored file. The note is named by
+// id only; the file path always comes from the note row. The result is
+// added as a new note version, so the content it replaces stays available.
+//
+// Body: { noteId, mode?: "extract" | "structure", style?: "standard" | "concise" | "detailed" }
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function parseOptions(body: Record<string, unknown>): ProcessingOptions {
+  const mode = body.mode ?? "structure";
+  if (mode !== "extract" && mode !== "structure") {
+    throw new HttpError(`Unknown mode: ${mode}`, 400);
+  }
+  const style = body.style ?? "standard";
+  if (!STRUCTURING_STYLES.includes(style as StructuringStyle)) {
+    throw new HttpError(`Unknown style: ${style}`, 400);
+  }
+  return mode === "extract" ? { mode } : { mode, style: style as StructuringStyle };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  try {
+    const user = await requireUser(req, supabase);
+    const body = await req.json();
+    const note = await requireOwnedNote(supabase, user.id, body.noteId);
+    const options = parseOptions(body);
+
+    console.log("Reprocessing note", note.id, "for user", user.id, "with", options);
+
+    const queued = await enqueueProcessingJob(supabase, note.id, user.id, options);
+    if (!queued) {
+      throw new HttpError("This note is already being processed", 409);
+    }
+
+    await supabase.from("notes").update({
+      status: "processing",
+      error_message: null,
+      processing_stage: "queued",
+      processing_progress: 0,
+      processing_detail: null,
+    }).eq("id", note.id);
+
+    await wakeWorker();
+
+    return new Response(
+      JSON.stringify({ success: true, queued: true, options }),
+      { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Reprocess error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: error instanceof HttpError ? error.status : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,29 @@
+-- Create note_chunks table: each note split into retrievable passages
+-- with the pages and heading path they came from
+CREATE TABLE public.note_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  ordinal INTEGER NOT NULL,
+  page_start INTEGER,
+  page_end INTEGER,
+  heading_path TEXT[] NOT NULL DEFAULT '{}',
+  content TEXT NOT NULL,
+  token_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (note_id, ordinal)
+);
+
+CREATE INDEX idx_note_chunks_user_id ON public.note_chunks(user_id);
+
+-- Enable RLS on note_chunks
+ALTER TABLE public.note_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Note chunks policies (rows are written by process-notes with the service role)
+CREATE POLICY "Users can view their own note chunks" 
+ON public.note_chunks FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note chunks" 
+ON public.note_chunks FOR DELETE 
+USING (auth.uid() = user_id);
@@ -0,0 +1,37 @@
+-- Enable pgvector for semantic retrieval over note chunks
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Embedding of each chunk (768 dimensions); NULL when no embedding
+-- provider is configured, in which case the solver ranks lexically
+ALTER TABLE public.note_chunks ADD COLUMN embedding extensions.vector(768);
+
+CREATE INDEX idx_note_chunks_embedding ON public.note_chunks
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Nearest chunks of one note to a query embedding. Runs with the caller's
+-- rights, so the note_chunks policies still apply.
+CREATE OR REPLACE FUNCTION public.match_note_chunks(
+  p_note_id UUID,
+  query_embedding extensions.vector(768),
+  match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  ordinal INTEGER,
+  page_start INTEGER,
+  page_end INTEGER,
+  heading_path TEXT[],
+  content TEXT,
+  token_count INTEGER,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT c.id, c.ordinal, c.page_start, c.page_end, c.heading_path, c.content, c.token_count,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.note_chunks c
+  WHERE c.note_id = p_note_id AND c.embedding IS NOT NULL
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
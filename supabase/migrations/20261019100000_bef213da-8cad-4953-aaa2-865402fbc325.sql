@@ -0,0 +1,3 @@
+-- Sources the tutor cited for an assistant message: a JSON array of
+-- { index, chunk_id, page_start, page_end, heading }
+ALTER TABLE public.chat_messages ADD COLUMN citations JSONB NOT NULL DEFAULT '[]'::jsonb;
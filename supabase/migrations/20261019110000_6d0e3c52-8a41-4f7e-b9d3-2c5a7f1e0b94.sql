@@ -0,0 +1,92 @@
+-- Create processing_jobs table: queued note processing, run by the
+-- process-notes-worker edge function with retries
+CREATE TABLE public.processing_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_processing_jobs_note_id ON public.processing_jobs(note_id);
+CREATE INDEX idx_processing_jobs_user_id ON public.processing_jobs(user_id);
+CREATE INDEX idx_processing_jobs_queued ON public.processing_jobs(run_after) WHERE status = 'queued';
+
+-- At most one unfinished job per note
+CREATE UNIQUE INDEX idx_processing_jobs_active_note ON public.processing_jobs(note_id)
+WHERE status IN ('queued', 'running');
+
+-- Enable RLS on processing_jobs
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Processing jobs policies (rows are written by the edge functions with the service role)
+CREATE POLICY "Users can view their own processing jobs" 
+ON public.processing_jobs FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_processing_jobs_updated_at
+BEFORE UPDATE ON public.processing_jobs
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claims the oldest due job for a worker and counts the attempt. SKIP LOCKED
+-- lets several workers poll the queue without taking the same job.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_worker TEXT)
+RETURNS SETOF public.processing_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.processing_jobs
+  SET status = 'running', attempts = attempts + 1, locked_at = now(), locked_by = p_worker
+  WHERE id = (
+    SELECT id FROM public.processing_jobs
+    WHERE status = 'queued' AND run_after <= now()
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Recovers jobs whose worker died (timeout, crash, redeploy): they are
+-- requeued, or failed together with their note once out of attempts.
+-- Returns the number of jobs recovered.
+CREATE OR REPLACE FUNCTION public.reap_processing_jobs(p_timeout INTERVAL DEFAULT interval '10 minutes')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  reaped INTEGER;
+BEGIN
+  WITH stale AS (
+    UPDATE public.processing_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+        run_after = now(),
+        locked_at = NULL,
+        locked_by = NULL,
+        last_error = 'Worker stopped before finishing'
+    WHERE status = 'running' AND locked_at < now() - p_timeout
+    RETURNING note_id, status
+  ), failed_notes AS (
+    UPDATE public.notes n
+    SET status = 'error', error_message = 'Processing did not finish after several attempts'
+    FROM stale
+    WHERE n.id = stale.note_id AND stale.status = 'failed'
+  )
+  SELECT count(*) INTO reaped FROM stale;
+  RETURN reaped;
+END;
+$$;
+
+-- Only the edge functions (service role) drive the queue
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reap_processing_jobs(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_processing_job(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reap_processing_jobs(INTERVAL) TO service_role;
@@ -0,0 +1,41 @@
+-- Progress of the current processing run, written by process-notes and the
+-- processing worker and shown in the upload dialog and on the dashboard.
+-- processing_stage is NULL once a note is ready or has failed.
+ALTER TABLE public.notes
+  ADD COLUMN processing_stage TEXT CHECK (processing_stage IN ('queued', 'downloading', 'extracting', 'structuring', 'indexing', 'retrying')),
+  ADD COLUMN processing_progress INTEGER NOT NULL DEFAULT 0 CHECK (processing_progress BETWEEN 0 AND 100),
+  ADD COLUMN processing_detail TEXT;
+
+-- Reaped jobs also reset their note's progress: back to queued, or cleared
+-- when the job has failed for good.
+CREATE OR REPLACE FUNCTION public.reap_processing_jobs(p_timeout INTERVAL DEFAULT interval '10 minutes')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  reaped INTEGER;
+BEGIN
+  WITH stale AS (
+    UPDATE public.processing_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+        run_after = now(),
+        locked_at = NULL,
+        locked_by = NULL,
+        last_error = 'Worker stopped before finishing'
+    WHERE status = 'running' AND locked_at < now() - p_timeout
+    RETURNING note_id, status
+  ), reset_notes AS (
+    UPDATE public.notes n
+    SET status = CASE WHEN stale.status = 'failed' THEN 'error' ELSE n.status END,
+        error_message = CASE WHEN stale.status = 'failed' THEN 'Processing did not finish after several attempts' ELSE n.error_message END,
+        processing_stage = CASE WHEN stale.status = 'failed' THEN NULL ELSE 'queued' END,
+        processing_progress = 0,
+        processing_detail = NULL
+    FROM stale
+    WHERE n.id = stale.note_id
+  )
+  SELECT count(*) INTO reaped FROM stale;
+  RETURN reaped;
+END;
+$$;
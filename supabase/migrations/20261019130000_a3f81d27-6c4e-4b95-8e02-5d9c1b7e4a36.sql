@@ -0,0 +1,4 @@
+-- Stream note and processing job changes to the dashboard over Realtime
+-- instead of polling. Row level security still applies to subscribers.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notes;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.processing_jobs;
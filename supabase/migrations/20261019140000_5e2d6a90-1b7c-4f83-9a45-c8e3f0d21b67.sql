@@ -0,0 +1,7 @@
+-- What a processing job should do, e.g. {"mode": "structure", "style": "concise"}
+-- for a reprocess requested with options; empty for a first upload
+ALTER TABLE public.processing_jobs ADD COLUMN options JSONB NOT NULL DEFAULT '{}';
+
+-- The processed content the latest reprocess replaced, so reprocessing
+-- never loses the earlier result
+ALTER TABLE public.notes ADD COLUMN previous_processed_content TEXT;
@@ -0,0 +1,89 @@
+-- Create note_versions table: every revision of a note's processed
+-- content, with where it came from. notes.processed_content is always the
+-- latest version.
+CREATE TABLE public.note_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('extraction', 'ai', 'edit', 'restore')),
+  model TEXT,
+  prompt TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (note_id, version_number)
+);
+
+CREATE INDEX idx_note_versions_user_id ON public.note_versions(user_id);
+
+-- Enable RLS on note_versions
+ALTER TABLE public.note_versions ENABLE ROW LEVEL SECURITY;
+
+-- Note versions policies (versions are added through add_note_version)
+CREATE POLICY "Users can view their own note versions" 
+ON public.note_versions FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own note versions" 
+ON public.note_versions FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+-- Records a new version of a note and makes it the note's processed
+-- content. The note row is locked so concurrent saves get consecutive
+-- numbers. Runs with the caller's rights: users can only version their
+-- own notes.
+CREATE OR REPLACE FUNCTION public.add_note_version(
+  p_note_id UUID,
+  p_content TEXT,
+  p_source TEXT,
+  p_model TEXT DEFAULT NULL,
+  p_prompt TEXT DEFAULT NULL
+)
+RETURNS public.note_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_version public.note_versions;
+BEGIN
+  SELECT user_id INTO v_user_id FROM public.notes WHERE id = p_note_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Note not found: %', p_note_id;
+  END IF;
+
+  INSERT INTO public.note_versions (note_id, user_id, version_number, content, source, model, prompt)
+  VALUES (
+    p_note_id,
+    v_user_id,
+    COALESCE((SELECT max(version_number) FROM public.note_versions WHERE note_id = p_note_id), 0) + 1,
+    p_content,
+    p_source,
+    p_model,
+    p_prompt
+  )
+  RETURNING * INTO v_version;
+
+  UPDATE public.notes SET processed_content = p_content WHERE id = p_note_id;
+  RETURN v_version;
+END;
+$$;
+
+-- Backfill: the content a reprocess replaced, then the current content.
+-- Where a note came from before versions were recorded is a best guess.
+INSERT INTO public.note_versions (note_id, user_id, version_number, content, source, created_at)
+SELECT id, user_id, 1, previous_processed_content, 'ai', created_at
+FROM public.notes
+WHERE previous_processed_content IS NOT NULL;
+
+INSERT INTO public.note_versions (note_id, user_id, version_number, content, source, created_at)
+SELECT id, user_id,
+  CASE WHEN previous_processed_content IS NULL THEN 1 ELSE 2 END,
+  processed_content,
+  CASE WHEN processed_content = original_content THEN 'extraction' ELSE 'ai' END,
+  updated_at
+FROM public.notes
+WHERE processed_content IS NOT NULL;
+
+-- Superseded by note_versions
+ALTER TABLE public.notes DROP COLUMN previous_processed_content;
@@ -0,0 +1,74 @@
+-- Trash: deleting a note only sets deleted_at. Notes in the trash can be
+-- restored for 30 days; after that, or when the user deletes them for
+-- good, the purge-notes edge function removes them with all their data.
+ALTER TABLE public.notes ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_notes_deleted_at ON public.notes(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Notes are only removed through purge_notes, which also queues the
+-- uploaded file for deletion
+DROP POLICY "Users can delete their own notes" ON public.notes;
+
+-- A note's chat goes with the note (it was kept with a NULL note_id)
+ALTER TABLE public.chat_messages
+  DROP CONSTRAINT chat_messages_note_id_fkey,
+  ADD CONSTRAINT chat_messages_note_id_fkey
+    FOREIGN KEY (note_id) REFERENCES public.notes(id) ON DELETE CASCADE;
+
+-- Create storage_deletions table: files of purged notes still to be
+-- removed from storage. Storage objects cannot be deleted from SQL, so
+-- purge-notes removes them after the notes are gone and keeps failures
+-- here for its next run.
+CREATE TABLE public.storage_deletions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bucket_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on storage_deletions (no policies: service role only)
+ALTER TABLE public.storage_deletions ENABLE ROW LEVEL SECURITY;
+
+-- Deletes notes from the trash and queues their files, in one statement
+-- so a note is never gone while its file is forgotten. Chats, chunks,
+-- versions and jobs go by cascade. Without p_note_ids, purges every note
+-- (of p_user_id, if given) that has been in the trash longer than
+-- p_older_than. Returns the number of notes purged.
+CREATE OR REPLACE FUNCTION public.purge_notes(
+  p_user_id UUID DEFAULT NULL,
+  p_note_ids UUID[] DEFAULT NULL,
+  p_older_than INTERVAL DEFAULT interval '30 days'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  WITH purged_notes AS (
+    DELETE FROM public.notes
+    WHERE deleted_at IS NOT NULL
+      AND deleted_at <= now() - p_older_than
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+      AND (p_note_ids IS NULL OR id = ANY(p_note_ids))
+    RETURNING id, file_url
+  ), queued_files AS (
+    -- Keep files another note still points at
+    INSERT INTO public.storage_deletions (bucket_id, path)
+    SELECT DISTINCT 'notes', p.file_url
+    FROM purged_notes p
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.notes n WHERE n.file_url = p.file_url AND n.id <> ALL(SELECT id FROM purged_notes)
+    )
+  )
+  SELECT count(*) INTO purged FROM purged_notes;
+  RETURN purged;
+END;
+$$;
+
+-- Only the purge-notes edge function (service role) purges
+REVOKE EXECUTE ON FUNCTION public.purge_notes(UUID, UUID[], INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_notes(UUID, UUID[], INTERVAL) TO service_role;
@@ -0,0 +1,62 @@
+-- Duplicate uploads: the SHA-256 of each uploaded file, so an upload a
+-- user already has can reuse the existing note instead of being processed
+-- again. Set by the client on upload and by the worker from the stored
+-- file.
+ALTER TABLE public.notes ADD COLUMN content_hash TEXT;
+
+CREATE INDEX idx_notes_user_content_hash ON public.notes(user_id, content_hash) WHERE content_hash IS NOT NULL;
+
+-- Creates a note for a duplicate upload from an existing processed note:
+-- the new note shares the stored file and starts with a copy of its
+-- content, passages and version history, so nothing is processed again.
+-- Runs as the owner to copy note_chunks (users cannot insert those), so
+-- the source note is looked up for the caller only. Returns the new
+-- note's id.
+CREATE OR REPLACE FUNCTION public.link_duplicate_note(p_note_id UUID, p_file_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source public.notes;
+  v_note_id UUID;
+BEGIN
+  SELECT * INTO v_source
+  FROM public.notes
+  WHERE id = p_note_id AND user_id = auth.uid() AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Note not found: %', p_note_id;
+  END IF;
+  IF v_source.status <> 'ready' THEN
+    RAISE EXCEPTION 'Note % has not finished processing', p_note_id;
+  END IF;
+
+  INSERT INTO public.notes (
+    user_id, file_name, file_type, file_size, file_url, content_hash,
+    original_content, processed_content, status, processing_progress
+  )
+  VALUES (
+    v_source.user_id, p_file_name, v_source.file_type, v_source.file_size, v_source.file_url, v_source.content_hash,
+    v_source.original_content, v_source.processed_content, 'ready', 100
+  )
+  RETURNING id INTO v_note_id;
+
+  INSERT INTO public.note_chunks (
+    note_id, user_id, ordinal, page_start, page_end, heading_path, content, token_count, embedding
+  )
+  SELECT v_note_id, user_id, ordinal, page_start, page_end, heading_path, content, token_count, embedding
+  FROM public.note_chunks
+  WHERE note_id = p_note_id;
+
+  INSERT INTO public.note_versions (note_id, user_id, version_number, content, source, model, prompt, created_at)
+  SELECT v_note_id, user_id, version_number, content, source, model, prompt, created_at
+  FROM public.note_versions
+  WHERE note_id = p_note_id;
+
+  RETURN v_note_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.link_duplicate_note(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.link_duplicate_note(UUID, TEXT) TO authenticated;
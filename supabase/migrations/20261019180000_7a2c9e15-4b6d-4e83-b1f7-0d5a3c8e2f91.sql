@@ -0,0 +1,45 @@
+-- Images in the Solver chat: a photo of a problem or of the user's own
+-- working, attached to a user message. The image is stored in the
+-- chat-attachments bucket under the user's folder; the message keeps its
+-- storage path.
+ALTER TABLE public.chat_messages ADD COLUMN image_path TEXT;
+
+-- Create storage bucket for chat images (the client sends them as JPEG,
+-- downscaled, so 10MB is generous)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('chat-attachments', 'chat-attachments', false, 10485760, ARRAY['image/jpeg', 'image/png', 'image/webp']);
+
+-- Storage policies for chat-attachments bucket
+CREATE POLICY "Users can upload their own chat images"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can view their own chat images"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own chat images"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- A deleted message's image is queued for purge-notes to remove, whether
+-- the message was deleted on its own or with its note. Runs as the owner
+-- because users cannot write to storage_deletions.
+CREATE OR REPLACE FUNCTION public.queue_chat_image_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.storage_deletions (bucket_id, path)
+  VALUES ('chat-attachments', OLD.image_path);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER queue_chat_image_deletion
+AFTER DELETE ON public.chat_messages
+FOR EACH ROW
+WHEN (OLD.image_path IS NOT NULL)
+EXECUTE FUNCTION public.queue_chat_image_deletion();
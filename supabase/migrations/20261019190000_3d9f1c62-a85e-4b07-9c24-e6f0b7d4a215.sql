@@ -0,0 +1,106 @@
+-- Chat threads: a note can have several independent Solver conversations
+-- ("Week 3 homework", "Exam revision"). Every message belongs to a thread;
+-- a thread goes with its note, and its messages go with it.
+CREATE TABLE public.chat_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New chat',
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Time of the latest message, so the most recent threads come first
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_threads_note_id ON public.chat_threads(note_id, updated_at DESC);
+
+-- Enable RLS on chat_threads
+ALTER TABLE public.chat_threads ENABLE ROW LEVEL SECURITY;
+
+-- Chat threads policies
+CREATE POLICY "Users can view their own chat threads"
+ON public.chat_threads FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own chat threads"
+ON public.chat_threads FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chat threads"
+ON public.chat_threads FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat threads"
+ON public.chat_threads FOR DELETE
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.chat_messages
+  ADD COLUMN thread_id UUID REFERENCES public.chat_threads(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_chat_messages_thread_id ON public.chat_messages(thread_id, created_at);
+
+-- Messages can only be added to, or moved into, the user's own threads
+DROP POLICY "Users can insert their own messages" ON public.chat_messages;
+CREATE POLICY "Users can insert their own messages"
+ON public.chat_messages FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (thread_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.chat_threads t WHERE t.id = thread_id AND t.user_id = auth.uid()
+  ))
+);
+
+DROP POLICY "Users can update their own messages" ON public.chat_messages;
+CREATE POLICY "Users can update their own messages"
+ON public.chat_messages FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (thread_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.chat_threads t WHERE t.id = thread_id AND t.user_id = auth.uid()
+  ))
+);
+
+-- Existing conversations become one thread per note, titled after their
+-- first question. Messages left without a note (before chats were deleted
+-- with their note) stay without a thread.
+INSERT INTO public.chat_threads (user_id, note_id, title, created_at, updated_at)
+SELECT
+  m.user_id,
+  m.note_id,
+  COALESCE(
+    (SELECT left(regexp_replace(first.content, '\s+', ' ', 'g'), 60)
+     FROM public.chat_messages first
+     WHERE first.user_id = m.user_id AND first.note_id = m.note_id AND first.role = 'user' AND first.content <> ''
+     ORDER BY first.created_at
+     LIMIT 1),
+    'Earlier chat'
+  ),
+  min(m.created_at),
+  max(m.created_at)
+FROM public.chat_messages m
+WHERE m.note_id IS NOT NULL
+GROUP BY m.user_id, m.note_id;
+
+UPDATE public.chat_messages m
+SET thread_id = t.id
+FROM public.chat_threads t
+WHERE t.user_id = m.user_id AND t.note_id = m.note_id;
+
+-- A new message moves its thread to the top of the list
+CREATE OR REPLACE FUNCTION public.touch_chat_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_threads SET updated_at = NEW.created_at WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_chat_thread
+AFTER INSERT ON public.chat_messages
+FOR EACH ROW
+WHEN (NEW.thread_id IS NOT NULL)
+EXECUTE FUNCTION public.touch_chat_thread();
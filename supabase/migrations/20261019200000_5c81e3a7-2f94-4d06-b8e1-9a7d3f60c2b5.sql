@@ -0,0 +1,58 @@
+-- Scheduled processing: every minute, wake process-notes-worker if a job
+-- has fallen due or a running job has stalled. Without it, a retry after
+-- a backoff longer than the worker's idle wait, and any job the reaper
+-- requeues, would wait for an unrelated upload to wake the worker.
+--
+-- Edge functions are called over HTTP with pg_net. The project URL and
+-- service role key come from Vault, so they are set per project rather
+-- than in a migration:
+--
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Calls an edge function with the service role key and returns the
+-- pg_net request id. Fails when either Vault secret is missing, so a
+-- misconfigured project shows up in cron.job_run_details.
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(p_name TEXT, p_body JSONB DEFAULT '{}'::jsonb)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RAISE EXCEPTION 'Vault secrets project_url and service_role_key must be set to call edge functions';
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(v_url, '/') || '/functions/v1/' || p_name,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_key),
+    body := p_body
+  );
+END;
+$$;
+
+-- Only scheduled jobs (run as the owner) call edge functions this way
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) TO service_role;
+
+-- The worker reaps stalled jobs itself, so stale running jobs count as work
+SELECT cron.schedule(
+  'process-notes-worker',
+  '* * * * *',
+  $$
+  SELECT public.invoke_edge_function('process-notes-worker')
+  WHERE EXISTS (
+    SELECT 1 FROM public.processing_jobs
+    WHERE (status = 'queued' AND run_after <= now())
+       OR (status = 'running' AND locked_at < now() - interval '10 minutes')
+  );
+  $$
+);
@@ -0,0 +1,81 @@
+-- Realtime without the note content: publishing notes sent the whole row,
+-- content and original_content included, to every subscriber on each
+-- progress update. note_cards mirrors only the columns the dashboard and
+-- upload cards show, and is published instead; the content is fetched
+-- when a note is opened.
+CREATE TABLE public.note_cards (
+  id UUID NOT NULL PRIMARY KEY REFERENCES public.notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  file_name TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  error_message TEXT,
+  processing_stage TEXT,
+  processing_progress INTEGER NOT NULL,
+  processing_detail TEXT,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_note_cards_user_id ON public.note_cards(user_id);
+
+-- Enable RLS on note_cards (written by the trigger below only)
+ALTER TABLE public.note_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own note cards"
+ON public.note_cards FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Keeps a note's card in step with the note. Runs as the owner because
+-- users cannot write note_cards.
+CREATE OR REPLACE FUNCTION public.sync_note_card()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.note_cards (
+    id, user_id, file_name, file_type, file_size, status, error_message,
+    processing_stage, processing_progress, processing_detail, deleted_at, created_at
+  )
+  VALUES (
+    NEW.id, NEW.user_id, NEW.file_name, NEW.file_type, NEW.file_size, NEW.status, NEW.error_message,
+    NEW.processing_stage, NEW.processing_progress, NEW.processing_detail, NEW.deleted_at, NEW.created_at
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    file_name = EXCLUDED.file_name,
+    file_type = EXCLUDED.file_type,
+    file_size = EXCLUDED.file_size,
+    status = EXCLUDED.status,
+    error_message = EXCLUDED.error_message,
+    processing_stage = EXCLUDED.processing_stage,
+    processing_progress = EXCLUDED.processing_progress,
+    processing_detail = EXCLUDED.processing_detail,
+    deleted_at = EXCLUDED.deleted_at;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_note_card_on_insert
+AFTER INSERT ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.sync_note_card();
+
+-- Content edits and reprocessing results do not touch the card
+CREATE TRIGGER sync_note_card_on_update
+AFTER UPDATE OF file_name, file_type, file_size, status, error_message, processing_stage,
+  processing_progress, processing_detail, deleted_at ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.sync_note_card();
+
+INSERT INTO public.note_cards (
+  id, user_id, file_name, file_type, file_size, status, error_message,
+  processing_stage, processing_progress, processing_detail, deleted_at, created_at
+)
+SELECT
+  id, user_id, file_name, file_type, file_size, status, error_message,
+  processing_stage, processing_progress, processing_detail, deleted_at, created_at
+FROM public.notes;
+
+ALTER PUBLICATION supabase_realtime DROP TABLE public.notes;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.note_cards;
@@ -0,0 +1,54 @@
+-- Note versions are only added through add_note_version. The insert
+-- policy let users write versions directly, with any note id, number and
+-- source; it is dropped, and add_note_version checks note ownership itself.
+DROP POLICY "Users can insert their own note versions" ON public.note_versions;
+
+-- Records a new version of a note and makes it the note's processed
+-- content. The note row is locked so concurrent saves get consecutive
+-- numbers. Runs as the owner now that users cannot insert versions, so it
+-- only accepts the caller's own notes; the service role (no auth.uid())
+-- may version any note.
+CREATE OR REPLACE FUNCTION public.add_note_version(
+  p_note_id UUID,
+  p_content TEXT,
+  p_source TEXT,
+  p_model TEXT DEFAULT NULL,
+  p_prompt TEXT DEFAULT NULL
+)
+RETURNS public.note_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_version public.note_versions;
+BEGIN
+  SELECT user_id INTO v_user_id
+  FROM public.notes
+  WHERE id = p_note_id AND (auth.uid() IS NULL OR user_id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Note not found: %', p_note_id;
+  END IF;
+
+  INSERT INTO public.note_versions (note_id, user_id, version_number, content, source, model, prompt)
+  VALUES (
+    p_note_id,
+    v_user_id,
+    COALESCE((SELECT max(version_number) FROM public.note_versions WHERE note_id = p_note_id), 0) + 1,
+    p_content,
+    p_source,
+    p_model,
+    p_prompt
+  )
+  RETURNING * INTO v_version;
+
+  UPDATE public.notes SET processed_content = p_content WHERE id = p_note_id;
+  RETURN v_version;
+END;
+$$;
+
+-- Signed-in users and the service role; anonymous callers have no auth.uid()
+REVOKE EXECUTE ON FUNCTION public.add_note_version(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_note_version(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated, service_role;
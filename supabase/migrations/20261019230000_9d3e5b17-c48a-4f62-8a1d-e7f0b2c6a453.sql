@@ -0,0 +1,63 @@
+-- purge_notes deletes files with the service role, so it must not trust
+-- notes.file_url: a user who pointed a note at another user's file and
+-- purged the note would have that file deleted. Only files in the note
+-- owner's own folder ("<user id>/...") are queued now, and file_url can no
+-- longer be changed once a note is created.
+
+-- A note keeps the file it was uploaded with
+CREATE OR REPLACE FUNCTION public.prevent_note_file_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.file_url IS DISTINCT FROM OLD.file_url THEN
+    RAISE EXCEPTION 'The file of a note cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_note_file_change
+BEFORE UPDATE OF file_url ON public.notes
+FOR EACH ROW EXECUTE FUNCTION public.prevent_note_file_change();
+
+-- Deletes notes from the trash and queues their files, in one statement
+-- so a note is never gone while its file is forgotten. Chats, chunks,
+-- versions and jobs go by cascade. Without p_note_ids, purges every note
+-- (of p_user_id, if given) that has been in the trash longer than
+-- p_older_than. Returns the number of notes purged.
+CREATE OR REPLACE FUNCTION public.purge_notes(
+  p_user_id UUID DEFAULT NULL,
+  p_note_ids UUID[] DEFAULT NULL,
+  p_older_than INTERVAL DEFAULT interval '30 days'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  WITH purged_notes AS (
+    DELETE FROM public.notes
+    WHERE deleted_at IS NOT NULL
+      AND deleted_at <= now() - p_older_than
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+      AND (p_note_ids IS NULL OR id = ANY(p_note_ids))
+    RETURNING id, user_id, file_url
+  ), queued_files AS (
+    -- Only files in the owner's folder, and not files another note still
+    -- points at
+    INSERT INTO public.storage_deletions (bucket_id, path)
+    SELECT DISTINCT 'notes', p.file_url
+    FROM purged_notes p
+    WHERE (storage.foldername(p.file_url))[1] = p.user_id::text
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notes n WHERE n.file_url = p.file_url AND n.id <> ALL(SELECT id FROM purged_notes)
+      )
+  )
+  SELECT count(*) INTO purged FROM purged_notes;
+  RETURN purged;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Scheduled purge: every hour, run purge-notes with the service role key
+-- when there is work for it. It deletes notes that have been in the trash
+-- for 30 days and removes queued files, including those of deleted chat
+-- messages and files that failed to delete on an earlier run. Uses
+-- invoke_edge_function and its Vault secrets (see the process-notes-worker
+-- schedule).
+SELECT cron.schedule(
+  'purge-notes',
+  '0 * * * *',
+  $$
+  SELECT public.invoke_edge_function('purge-notes')
+  WHERE EXISTS (
+    SELECT 1 FROM public.notes WHERE deleted_at IS NOT NULL AND deleted_at <= now() - interval '30 days'
+  ) OR EXISTS (
+    SELECT 1 FROM public.storage_deletions
+  );
+  $$
+);
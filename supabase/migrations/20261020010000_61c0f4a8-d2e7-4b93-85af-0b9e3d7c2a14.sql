@@ -0,0 +1,6 @@
+-- Create storage bucket for the OCR engine files (see ocr.ts). They are
+-- public releases (tesseract-wasm and tessdata_fast), hosted here so OCR
+-- does not depend on a third-party CDN. Uploaded by the project owner;
+-- there are no user policies, and public buckets are read without one.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('ocr-assets', 'ocr-assets', true, 52428800);
@@ -0,0 +1,48 @@
+-- A message's image_path comes from the client, and purge-notes deletes
+-- queued files with the service role: a message pointing at another
+-- user's image would have that image deleted with the message. Messages
+-- may now only name images in the user's own folder, and only such images
+-- are queued for deletion.
+
+-- A deleted message's image is queued for purge-notes to remove, whether
+-- the message was deleted on its own or with its note. Runs as the owner
+-- because users cannot write to storage_deletions.
+CREATE OR REPLACE FUNCTION public.queue_chat_image_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (storage.foldername(OLD.image_path))[1] = OLD.user_id::text THEN
+    INSERT INTO public.storage_deletions (bucket_id, path)
+    VALUES ('chat-attachments', OLD.image_path);
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+-- Messages can only be added to, or moved into, the user's own threads,
+-- with images from the user's own folder
+DROP POLICY "Users can insert their own messages" ON public.chat_messages;
+CREATE POLICY "Users can insert their own messages"
+ON public.chat_messages FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (thread_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.chat_threads t WHERE t.id = thread_id AND t.user_id = auth.uid()
+  ))
+  AND (image_path IS NULL OR (storage.foldername(image_path))[1] = auth.uid()::text)
+);
+
+DROP POLICY "Users can update their own messages" ON public.chat_messages;
+CREATE POLICY "Users can update their own messages"
+ON public.chat_messages FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (thread_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.chat_threads t WHERE t.id = thread_id AND t.user_id = auth.uid()
+  ))
+  AND (image_path IS NULL OR (storage.foldername(image_path))[1] = auth.uid()::text)
+);
@@ -0,0 +1,18 @@
+-- Threads could be created on, or moved to, any note id, including other
+-- users' notes. A thread's note must now be one of the user's own.
+DROP POLICY "Users can insert their own chat threads" ON public.chat_threads;
+CREATE POLICY "Users can insert their own chat threads"
+ON public.chat_threads FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id AND n.user_id = auth.uid())
+);
+
+DROP POLICY "Users can update their own chat threads" ON public.chat_threads;
+CREATE POLICY "Users can update their own chat threads"
+ON public.chat_threads FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.notes n WHERE n.id = note_id AND n.user_id = auth.uid())
+);
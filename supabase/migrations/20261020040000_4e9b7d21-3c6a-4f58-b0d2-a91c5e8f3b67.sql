@@ -0,0 +1,44 @@
+-- Jobs of notes in the trash are cancelled instead of run: a note trashed
+-- while its job was queued or waiting to retry was still processed and
+-- turned ready. The note is marked as errored, so after a restore it can
+-- be reprocessed from the dashboard.
+ALTER TABLE public.processing_jobs
+  DROP CONSTRAINT processing_jobs_status_check,
+  ADD CONSTRAINT processing_jobs_status_check
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled'));
+
+-- Claims the oldest due job for a worker and counts the attempt. SKIP LOCKED
+-- lets several workers poll the queue without taking the same job. Queued
+-- jobs of trashed notes are cancelled on the way.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_worker TEXT)
+RETURNS SETOF public.processing_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH cancelled AS (
+    UPDATE public.processing_jobs j
+    SET status = 'cancelled', last_error = 'Note moved to the trash'
+    FROM public.notes n
+    WHERE n.id = j.note_id AND j.status = 'queued' AND n.deleted_at IS NOT NULL
+    RETURNING j.note_id
+  ), cancelled_notes AS (
+    UPDATE public.notes n
+    SET status = 'error',
+        error_message = 'Processing stopped when the note was moved to the trash. Reprocess it to finish.',
+        processing_stage = NULL,
+        processing_detail = NULL
+    FROM cancelled
+    WHERE n.id = cancelled.note_id
+  )
+  UPDATE public.processing_jobs
+  SET status = 'running', attempts = attempts + 1, locked_at = now(), locked_by = p_worker
+  WHERE id = (
+    SELECT j.id FROM public.processing_jobs j
+    JOIN public.notes n ON n.id = j.note_id
+    WHERE j.status = 'queued' AND j.run_after <= now() AND n.deleted_at IS NULL
+    ORDER BY j.run_after
+    LIMIT 1
+    FOR UPDATE OF j SKIP LOCKED
+  )
+  RETURNING *;
+$$;